@@ -2,12 +2,13 @@ import { useState } from 'react';
 import { Controls } from '~/tools/worldgen/components/Controls';
 import { Viewport } from '~/tools/worldgen/components/Viewport';
 import { useWorldGeneration } from './/hooks/useWorldGeneration';
+import { useWorldEditHistory } from './hooks/useWorldEditHistory';
 import type { WorldGenerationResult, WorldGenerationConfig } from '~/worldgen/types';
 
-export type ViewMode = 'graph' | 'analysis';
+export type ViewMode = 'graph' | 'analysis' | 'diff';
 
 export function WorldGenTool() {
-  const [world, setWorld] = useState<WorldGenerationResult | null>(null);
+  const { world, resetWorld, applyEdit, undo, redo, canUndo, canRedo } = useWorldEditHistory();
   const [currentSeed, setCurrentSeed] = useState<number>(0);
   const [viewMode, setViewMode] = useState<ViewMode>('graph');
   const { generateWorld, isGenerating, clearError } = useWorldGeneration();
@@ -17,7 +18,7 @@ export function WorldGenTool() {
     try {
       clearError();
       const generatedWorld = await generateWorld(config);
-      setWorld(generatedWorld);
+      resetWorld(generatedWorld);
       setCurrentSeed(config.seed || 0); // Track the seed used for generation
       console.log('World generated successfully:', generatedWorld);
     } catch (error) {
@@ -28,7 +29,7 @@ export function WorldGenTool() {
 
   const handleWorldImported = (importedWorld: WorldGenerationResult) => {
     console.log('WorldGenTool: handleWorldImported called with world:', importedWorld);
-    setWorld(importedWorld);
+    resetWorld(importedWorld);
     setCurrentSeed(importedWorld.config.seed || 0); // Track the seed from the imported world
   };
 
@@ -49,6 +50,11 @@ export function WorldGenTool() {
           world={world}
           viewMode={viewMode}
           onViewModeChange={setViewMode}
+          onEdit={applyEdit}
+          onUndo={undo}
+          onRedo={redo}
+          canUndo={canUndo}
+          canRedo={canRedo}
         />
       </div>
     </div>
@@ -0,0 +1,113 @@
+import React from 'react'
+import type { WorldGenerationResult } from '../../../worldgen/types'
+import {
+  FLOW_DIRECTION_COLORS,
+  FLOW_FAR_COLOR,
+  NODE_COLORS,
+  TERRAIN_COLORS,
+  getElevationRange,
+  getRiverSteps,
+  shadeTerrainColor,
+  type ColorScheme
+} from '../rendering'
+
+interface ColorSchemeLegendProps {
+  world: WorldGenerationResult
+  colorScheme: ColorScheme
+}
+
+const formatLabel = (key: string) => key.charAt(0).toUpperCase() + key.slice(1)
+
+export const ColorSchemeLegend: React.FC<ColorSchemeLegendProps> = ({ world, colorScheme }) => {
+  return (
+    <div className="w-60 bg-surface border border-border rounded-lg shadow-lg p-3 space-y-2 text-xs">
+      {colorScheme === 'flow' ? (
+        <FlowLegend world={world} />
+      ) : colorScheme === 'terrain' ? (
+        <TerrainLegend world={world} />
+      ) : (
+        <Swatches title="Ecosystems" colors={NODE_COLORS} round />
+      )}
+    </div>
+  )
+}
+
+const TerrainLegend: React.FC<{ world: WorldGenerationResult }> = ({ world }) => {
+  const range = getElevationRange(world.vertices)
+
+  return (
+    <>
+      <Swatches title="Ecosystems" colors={TERRAIN_COLORS} round />
+      {range ? (
+        <Gradient
+          title="Elevation"
+          from={shadeTerrainColor(TERRAIN_COLORS.grassland, 0)}
+          to={shadeTerrainColor(TERRAIN_COLORS.grassland, 1)}
+          fromLabel={`${Math.round(range.min)} m`}
+          toLabel={`${Math.round(range.max)} m`}
+        />
+      ) : (
+        <p className="text-text-dim">No elevation data; showing biome tones only.</p>
+      )}
+    </>
+  )
+}
+
+const FlowLegend: React.FC<{ world: WorldGenerationResult }> = ({ world }) => {
+  const { maxSteps } = getRiverSteps(world)
+
+  return (
+    <>
+      <Swatches title="Flow direction" colors={FLOW_DIRECTION_COLORS} />
+      <Gradient
+        title="Distance from origin"
+        from={FLOW_DIRECTION_COLORS.eastward}
+        to={FLOW_FAR_COLOR}
+        fromLabel="Origin"
+        toLabel={`${maxSteps} ${maxSteps === 1 ? 'step' : 'steps'}`}
+      />
+    </>
+  )
+}
+
+interface SwatchesProps {
+  title: string
+  colors: Record<string, string>
+  round?: boolean // Places are drawn as circles, rivers as lines
+}
+
+const Swatches: React.FC<SwatchesProps> = ({ title, colors, round = false }) => (
+  <div className="space-y-1">
+    <div className="text-text-bright font-medium">{title}</div>
+    <div className="grid grid-cols-2 gap-x-3 gap-y-1">
+      {Object.entries(colors).map(([key, color]) => (
+        <div key={key} className="flex items-center gap-2">
+          <span
+            className={round ? 'w-3 h-3 rounded-full' : 'w-4 h-1 rounded-sm'}
+            style={{ backgroundColor: color }}
+          />
+          <span className="text-text-dim">{formatLabel(key)}</span>
+        </div>
+      ))}
+    </div>
+  </div>
+)
+
+interface GradientProps {
+  title: string
+  from: string
+  to: string
+  fromLabel: string
+  toLabel: string
+}
+
+const Gradient: React.FC<GradientProps> = ({ title, from, to, fromLabel, toLabel }) => (
+  <div className="space-y-1">
+    <div className="text-text-bright font-medium">{title}</div>
+    <div className="h-2 rounded-sm" style={{ background: `linear-gradient(to right, ${from}, ${to})` }} />
+    <div className="flex justify-between text-text-dim">
+      <span>{fromLabel}</span>
+      <span>{toLabel}</span>
+    </div>
+  </div>
+)
@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
-import type { WorldGenerationConfig, WorldGenerationResult } from '~/worldgen/types';
+import type { WorldGenerationConfig, WorldGenerationResult, ImportValidationReport } from '~/worldgen/types';
+import { computeWorldLayout } from '~/worldgen/generator';
 import { useWorldIO } from '~/tools/worldgen/hooks/useWorldIO';
+import type { WorldExportFormat, MapExportFormat } from '~/tools/worldgen/hooks/useWorldIO';
 import { FileImportModal } from './FileImportModal';
 
 interface Toast {
@@ -17,6 +19,21 @@ interface ControlsProps {
   currentSeed: number;
 }
 
+// Choices offered by the export button
+const EXPORT_OPTIONS: Array<{ format: WorldExportFormat | MapExportFormat; label: string; description: string }> = [
+  { format: 'jsonl', label: 'JSONL', description: 'Places for the MUD server' },
+  { format: 'binary', label: 'Binary', description: 'Compact world file (.fwb)' },
+  { format: 'graphml', label: 'GraphML', description: 'River graph for yEd' },
+  { format: 'gexf', label: 'GEXF', description: 'River graph for Gephi' },
+  { format: 'svg', label: 'SVG map', description: 'Rendered map with legend' },
+  { format: 'png', label: 'PNG map', description: 'High-resolution rendered map' }
+];
+
+const PNG_DPI_OPTIONS = [96, 150, 300, 600];
+
+// Origin choices; 'grid' places it at explicit grid coordinates
+type OriginMode = 'west-center' | 'random' | 'grid';
+
 function getRandomSeed() {
   return Math.floor(Math.random() * 1_000_000);
 }
@@ -31,12 +48,22 @@ export const Controls: React.FC<ControlsProps> = ({
   const [worldWidthKm, setWorldWidthKm] = useState(31.0); // 31.0 km
   const [worldHeightKm, setWorldHeightKm] = useState(11.0); // 11.0 km
   const [branchingFactor, setBranchingFactor] = useState(0.6); // Default branching factor
+  const [meanderingFactor, setMeanderingFactor] = useState(0.5); // Default meandering factor
+  const [originMode, setOriginMode] = useState<OriginMode>('west-center');
+  const [originGrid, setOriginGrid] = useState({ gridX: 0, gridY: 0 });
+  const [spawnCount, setSpawnCount] = useState(0);
   const [seed, setSeed] = useState(getRandomSeed());
   const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const [labelMapURNs, setLabelMapURNs] = useState(false);
+  const [deterministicExport, setDeterministicExport] = useState(false);
+  const [mapDpi, setMapDpi] = useState(300);
+  const [importReport, setImportReport] = useState<ImportValidationReport | null>(null);
+  const [pendingImport, setPendingImport] = useState<WorldGenerationResult | null>(null);
   const [toasts, setToasts] = useState<Toast[]>([]);
 
   // Use the world IO hook
-  const { exportWorld, importWorld, isExporting, isImporting, clearError } = useWorldIO();
+  const { exportWorld, exportMap, importWorld, isExporting, isImporting, importProgress, clearError } = useWorldIO();
 
   const showToast = (type: 'success' | 'error', message: string) => {
     const id = Date.now().toString();
@@ -46,12 +73,23 @@ export const Controls: React.FC<ControlsProps> = ({
     }, 5000); // Remove after 5 seconds
   };
 
+  // Explicit origin coordinates must fall inside the grid the current size produces
+  const { gridWidth, gridHeight } = computeWorldLayout({ worldWidthKm, worldHeightKm }).spatialMetrics;
+  const isOriginGridValid = [originGrid.gridX, originGrid.gridY].every(Number.isInteger) &&
+    originGrid.gridX >= 0 && originGrid.gridX < gridWidth &&
+    originGrid.gridY >= 0 && originGrid.gridY < gridHeight;
+  const canGenerate = !isGenerating && (originMode !== 'grid' || isOriginGridValid);
+
   const handleGenerateClick = () => {
+    const originPlacement = originMode === 'grid' ? originGrid : originMode;
     const config: WorldGenerationConfig = {
       worldWidthKm,
       worldHeightKm,
       branchingFactor,
+      meanderingFactor,
       ditheringStrength: 0.5, // Fixed value
+      originPlacement,
+      spawnCount,
       seed
     };
     console.log('Generate World button clicked! Config:', config);
@@ -64,35 +102,72 @@ export const Controls: React.FC<ControlsProps> = ({
     setSeed(newSeed);
   };
 
-  const handleExportClick = async () => {
+  const handleExportClick = async (format: WorldExportFormat | MapExportFormat) => {
+    setIsExportMenuOpen(false);
     if (!world) {
       console.error('No world to export');
       return;
     }
 
+    if (format === 'svg' || format === 'png') {
+      try {
+        await exportMap(world, format, { showLabels: labelMapURNs, dpi: mapDpi });
+        showToast('success', `Map exported as ${format.toUpperCase()}`);
+      } catch (err) {
+        showToast('error', err instanceof Error ? err.message : 'Map export failed');
+      }
+      return;
+    }
+
     try {
       // Use the same seed as the world generation for deterministic exports
       const exportSeed = currentSeed || seed;
-      await exportWorld(world, exportSeed);
+      await exportWorld(world, exportSeed, format, { deterministic: deterministicExport });
       showToast('success', 'World exported successfully');
     } catch (err) {
       showToast('error', err instanceof Error ? err.message : 'Export failed');
     }
   };
 
+  const closeImportModal = () => {
+    setIsImportModalOpen(false);
+    setImportReport(null);
+    setPendingImport(null);
+  };
+
   const handleFileSelected = async (file: File) => {
     try {
       clearError();
-      const importedWorld = await importWorld(file);
-      onWorldImported(importedWorld);
-      showToast('success', 'World imported successfully');
+      setImportReport(null);
+      setPendingImport(null);
+      const { world: importedWorld, report } = await importWorld(file);
+
+      if (importedWorld && report.issues.length === 0) {
+        onWorldImported(importedWorld);
+        showToast('success', 'World imported successfully');
+        closeImportModal();
+        return;
+      }
+
+      // Keep the modal open to show the report; a world with only warnings can still be loaded from it
+      setImportReport(report);
+      setPendingImport(importedWorld);
     } catch (err) {
       // Error is already handled by the hook
       console.error('Failed to import world:', err);
       showToast('error', err instanceof Error ? err.message : 'Import failed');
+      closeImportModal();
     }
   };
 
+  const handleLoadWithWarnings = () => {
+    if (pendingImport) {
+      onWorldImported(pendingImport);
+      showToast('success', `World imported with ${importReport?.warningCount ?? 0} warnings`);
+    }
+    closeImportModal();
+  };
+
   const handleWidthChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newValue = Number(e.target.value);
     console.log('World width changed to:', newValue);
@@ -111,6 +186,30 @@ export const Controls: React.FC<ControlsProps> = ({
     setBranchingFactor(newValue);
   };
 
+  const handleMeanderingFactorChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const newValue = Number(e.target.value);
+    console.log('Meandering factor changed to:', newValue);
+    setMeanderingFactor(newValue);
+  };
+
+  const handleOriginModeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const newValue = e.target.value as OriginMode;
+    console.log('Origin placement changed to:', newValue);
+    setOriginMode(newValue);
+  };
+
+  const handleOriginGridChange = (axis: 'gridX' | 'gridY') => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const newValue = e.target.value === '' ? NaN : Number(e.target.value);
+    console.log(`Origin ${axis} changed to:`, newValue);
+    setOriginGrid(prev => ({ ...prev, [axis]: newValue }));
+  };
+
+  const handleSpawnCountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const newValue = Number(e.target.value);
+    console.log('Spawn count changed to:', newValue);
+    setSpawnCount(newValue);
+  };
+
   const handleSeedChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newValue = Number(e.target.value);
     console.log('Seed input changed to:', newValue);
@@ -182,6 +281,89 @@ export const Controls: React.FC<ControlsProps> = ({
               </span>
             </div>
 
+            <div className="flex items-center gap-3">
+              <label htmlFor="meanderingFactor" className="text-base font-medium text-text whitespace-nowrap">
+                Meandering
+              </label>
+              <input
+                id="meanderingFactor"
+                type="range"
+                min="0.0"
+                max="1.0"
+                step="0.1"
+                value={meanderingFactor}
+                onChange={handleMeanderingFactorChange}
+                className="w-32 h-2 bg-surface rounded-lg appearance-none cursor-pointer slider"
+                disabled={isGenerating}
+              />
+              <span className="text-base text-text-dim font-mono w-14 text-right">
+                {meanderingFactor.toFixed(1)}
+              </span>
+            </div>
+
+            <div className="flex items-center gap-3">
+              <label htmlFor="originPlacement" className="text-base font-medium text-text whitespace-nowrap">
+                Origin
+              </label>
+              <select
+                id="originPlacement"
+                value={originMode}
+                onChange={handleOriginModeChange}
+                className="input text-base"
+                disabled={isGenerating}
+              >
+                <option value="west-center">West centre</option>
+                <option value="random">Random</option>
+                <option value="grid">Grid cell</option>
+              </select>
+              {originMode === 'grid' && (
+                <>
+                  <input
+                    id="originGridX"
+                    type="number"
+                    min="0"
+                    max={gridWidth - 1}
+                    step="1"
+                    value={Number.isNaN(originGrid.gridX) ? '' : originGrid.gridX}
+                    onChange={handleOriginGridChange('gridX')}
+                    className={`input w-16 text-base ${isOriginGridValid ? '' : 'border-danger'}`}
+                    aria-label="Origin grid column"
+                    title={`Column, 0 to ${gridWidth - 1}`}
+                    disabled={isGenerating}
+                  />
+                  <input
+                    id="originGridY"
+                    type="number"
+                    min="0"
+                    max={gridHeight - 1}
+                    step="1"
+                    value={Number.isNaN(originGrid.gridY) ? '' : originGrid.gridY}
+                    onChange={handleOriginGridChange('gridY')}
+                    className={`input w-16 text-base ${isOriginGridValid ? '' : 'border-danger'}`}
+                    aria-label="Origin grid row"
+                    title={`Row, 0 to ${gridHeight - 1}`}
+                    disabled={isGenerating}
+                  />
+                </>
+              )}
+            </div>
+
+            <div className="flex items-center gap-3">
+              <label htmlFor="spawnCount" className="text-base font-medium text-text whitespace-nowrap">
+                Spawns
+              </label>
+              <input
+                id="spawnCount"
+                type="number"
+                min="0"
+                max="8"
+                value={spawnCount}
+                onChange={handleSpawnCountChange}
+                className="input w-16 text-base"
+                disabled={isGenerating}
+              />
+            </div>
+
             <div className="flex items-center gap-3">
               <label htmlFor="seed" className="text-base font-medium text-text whitespace-nowrap">
                 Seed
@@ -209,7 +391,8 @@ export const Controls: React.FC<ControlsProps> = ({
             <div className="flex items-center gap-3">
               <button
                 onClick={handleGenerateClick}
-                disabled={isGenerating}
+                disabled={!canGenerate}
+                title={canGenerate || isGenerating ? undefined : `Origin must be inside the ${gridWidth} × ${gridHeight} grid`}
                 className="btn btn-primary px-5 py-2 text-base whitespace-nowrap"
               >
                 {isGenerating ? 'Generating...' : 'Generate'}
@@ -219,19 +402,68 @@ export const Controls: React.FC<ControlsProps> = ({
                 onClick={() => setIsImportModalOpen(true)}
                 disabled={isGenerating || isImporting}
                 className="btn btn-secondary px-5 py-2 text-base whitespace-nowrap"
-                title="Import world from JSONL"
+                title="Import world from JSONL or binary"
               >
                 {isImporting ? 'Importing...' : 'Import'}
               </button>
 
-              <button
-                onClick={handleExportClick}
-                disabled={isGenerating || !world || isExporting}
-                className="btn btn-secondary px-5 py-2 text-base whitespace-nowrap"
-                title="Export world to JSONL"
-              >
-                {isExporting ? 'Exporting...' : 'Export'}
-              </button>
+              <div className="relative">
+                <button
+                  onClick={() => setIsExportMenuOpen(open => !open)}
+                  disabled={isGenerating || !world || isExporting}
+                  className="btn btn-secondary px-5 py-2 text-base whitespace-nowrap"
+                  title="Export world"
+                >
+                  {isExporting ? 'Exporting...' : 'Export ▾'}
+                </button>
+
+                {isExportMenuOpen && (
+                  <div className="absolute right-0 mt-2 w-56 bg-surface border border-border rounded-lg shadow-xl z-40 py-1">
+                    {EXPORT_OPTIONS.map(option => (
+                      <button
+                        key={option.format}
+                        onClick={() => handleExportClick(option.format)}
+                        className="block w-full text-left px-4 py-2 hover:bg-background"
+                      >
+                        <span className="text-text-bright font-medium">{option.label}</span>
+                        <span className="block text-xs text-text-dim">{option.description}</span>
+                      </button>
+                    ))}
+
+                    {/* World file and map rendering options */}
+                    <div className="border-t border-border mt-1 px-4 py-2 space-y-2 text-sm text-text-dim">
+                      <label className="flex items-center gap-2" title="Same seed and settings give byte-identical files, stamped with a seed-derived date rather than the export time">
+                        <input
+                          type="checkbox"
+                          checked={deterministicExport}
+                          onChange={e => setDeterministicExport(e.target.checked)}
+                        />
+                        Deterministic world files
+                      </label>
+                      <label className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={labelMapURNs}
+                          onChange={e => setLabelMapURNs(e.target.checked)}
+                        />
+                        Label map with URNs
+                      </label>
+                      <label className="flex items-center justify-between gap-2">
+                        PNG resolution
+                        <select
+                          value={mapDpi}
+                          onChange={e => setMapDpi(Number(e.target.value))}
+                          className="input text-sm"
+                        >
+                          {PNG_DPI_OPTIONS.map(dpi => (
+                            <option key={dpi} value={dpi}>{dpi} DPI</option>
+                          ))}
+                        </select>
+                      </label>
+                    </div>
+                  </div>
+                )}
+              </div>
             </div>
           </div>
         </div>
@@ -256,8 +488,11 @@ export const Controls: React.FC<ControlsProps> = ({
       {/* Import Modal */}
       <FileImportModal
         isOpen={isImportModalOpen}
-        onClose={() => setIsImportModalOpen(false)}
+        onClose={closeImportModal}
         onFileSelected={handleFileSelected}
+        progress={importProgress}
+        report={importReport}
+        onLoadWithWarnings={pendingImport ? handleLoadWithWarnings : undefined}
       />
     </>
   );
@@ -1,15 +1,27 @@
 import React, { useRef } from 'react';
+import type { WorldImportProgress } from '~/workers/worldImport.worker';
+import type { ImportValidationReport } from '~/worldgen/types';
 
 interface FileImportModalProps {
   isOpen: boolean;
   onClose: () => void;
   onFileSelected: (file: File) => void;
+  progress?: WorldImportProgress | null;
+  report?: ImportValidationReport | null;
+  onLoadWithWarnings?: () => void; // Present when the reported world has no errors
+}
+
+function formatMegabytes(bytes: number): string {
+  return (bytes / (1024 * 1024)).toFixed(1);
 }
 
 export const FileImportModal: React.FC<FileImportModalProps> = ({
   isOpen,
   onClose,
-  onFileSelected
+  onFileSelected,
+  progress = null,
+  report = null,
+  onLoadWithWarnings
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -18,8 +30,8 @@ export const FileImportModal: React.FC<FileImportModalProps> = ({
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
+      // The modal stays open to show progress; the caller closes it when the import settles
       onFileSelected(file);
-      onClose();
     }
   };
 
@@ -29,15 +41,16 @@ export const FileImportModal: React.FC<FileImportModalProps> = ({
         <h2 className="text-lg font-semibold text-text-bright mb-4">Import World</h2>
 
         <p className="text-text-dim mb-6">
-          Select a JSONL file containing a previously exported world.
+          Select a JSONL or binary (.fwb) file containing a previously exported world.
         </p>
 
         <div className="space-y-4">
           <input
             ref={fileInputRef}
             type="file"
-            accept=".jsonl"
+            accept=".jsonl,.fwb"
             onChange={handleFileChange}
+            disabled={progress !== null}
             className="block w-full text-sm text-text-dim
               file:mr-4 file:py-2 file:px-4
               file:rounded-lg file:border-0
@@ -47,13 +60,61 @@ export const FileImportModal: React.FC<FileImportModalProps> = ({
               cursor-pointer"
           />
 
+          {progress && (
+            <div className="space-y-2">
+              <div className="h-2 bg-background rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-accent transition-all duration-200"
+                  style={{ width: `${progress.totalBytes > 0 ? (progress.bytesRead / progress.totalBytes) * 100 : 0}%` }}
+                />
+              </div>
+              <p className="text-sm text-text-dim font-mono">
+                {formatMegabytes(progress.bytesRead)} / {formatMegabytes(progress.totalBytes)} MB · {progress.placesParsed} places
+              </p>
+            </div>
+          )}
+
+          {report && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">
+                <span className={report.errorCount > 0 ? 'text-danger' : 'text-text-dim'}>
+                  {report.errorCount} {report.errorCount === 1 ? 'error' : 'errors'}
+                </span>
+                <span className="text-text-dim"> · </span>
+                <span className={report.warningCount > 0 ? 'text-warning' : 'text-text-dim'}>
+                  {report.warningCount} {report.warningCount === 1 ? 'warning' : 'warnings'}
+                </span>
+              </p>
+              <ul className="max-h-64 overflow-y-auto bg-background rounded-lg p-3 space-y-2 text-xs font-mono break-words">
+                {report.issues.map((issue, index) => (
+                  <li key={index} className={issue.severity === 'error' ? 'text-danger' : 'text-warning'}>
+                    <span className="text-text-dim">
+                      {issue.line !== undefined ? `Line ${issue.line}` : 'World'}
+                      {issue.placeId ? ` · ${issue.placeId}` : ''}
+                    </span>
+                    <div>{issue.message}</div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           <div className="flex justify-end gap-3 mt-6">
             <button
               onClick={onClose}
+              disabled={progress !== null}
               className="btn btn-secondary px-4 py-2"
             >
-              Cancel
+              {report ? 'Close' : 'Cancel'}
             </button>
+            {report && onLoadWithWarnings && (
+              <button
+                onClick={onLoadWithWarnings}
+                className="btn btn-primary px-4 py-2"
+              >
+                Load Anyway
+              </button>
+            )}
           </div>
         </div>
       </div>
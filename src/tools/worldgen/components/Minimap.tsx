@@ -0,0 +1,117 @@
+import React, { useEffect, useRef } from 'react'
+import type { WorldGenerationResult } from '../../../worldgen/types'
+import type { ViewTransform } from '../hooks/useViewTransform'
+import { BACKGROUND_COLOR, ECOSYSTEM_COLORS, createWorldTransform, getBiomeFromURN } from '../rendering'
+
+const MINIMAP_WIDTH = 240 // Canvas pixels; the height follows the world's aspect ratio
+const MIN_MINIMAP_HEIGHT = 24
+
+interface MinimapProps {
+  world: WorldGenerationResult
+  view: ViewTransform
+  canvasWidth: number // Size of the main canvas the view applies to
+  canvasHeight: number
+  onCenterOn: (x: number, y: number) => void // World meters to bring to the centre of the main canvas
+}
+
+export const Minimap: React.FC<MinimapProps> = ({ world, view, canvasWidth, canvasHeight, onCenterOn }) => {
+  const worldCanvasRef = useRef<HTMLCanvasElement>(null)
+  const viewCanvasRef = useRef<HTMLCanvasElement>(null)
+  const isDraggingRef = useRef(false)
+
+  const { worldWidthMeters, worldHeightMeters } = world.spatialMetrics
+  const width = MINIMAP_WIDTH
+  const height = Math.max(MIN_MINIMAP_HEIGHT, Math.round(width * worldHeightMeters / worldWidthMeters))
+  const pixelsPerMeterX = width / worldWidthMeters
+  const pixelsPerMeterY = height / worldHeightMeters
+
+  // The world is drawn once per world; only the viewport rectangle follows the view
+  useEffect(() => {
+    const ctx = worldCanvasRef.current?.getContext('2d')
+    if (!ctx) return
+
+    ctx.fillStyle = BACKGROUND_COLOR
+    ctx.fillRect(0, 0, width, height)
+
+    // Bands as a faint backdrop, then each place as a cell in its own ecosystem colour
+    world.ecosystemBands.forEach(band => {
+      ctx.fillStyle = ECOSYSTEM_COLORS[getBiomeFromURN(band.ecosystem) as keyof typeof ECOSYSTEM_COLORS] + '40' // 40 = ~25% opacity
+      ctx.fillRect(band.startX * pixelsPerMeterX, 0, (band.endX - band.startX) * pixelsPerMeterX, height)
+    })
+
+    const cellWidth = Math.max(1, world.spatialMetrics.placeSpacing * pixelsPerMeterX)
+    const cellHeight = Math.max(1, world.spatialMetrics.placeSpacing * pixelsPerMeterY)
+    for (const vertex of world.vertices) {
+      ctx.fillStyle = ECOSYSTEM_COLORS[getBiomeFromURN(vertex.ecosystem) as keyof typeof ECOSYSTEM_COLORS] ?? '#83a598'
+      ctx.fillRect(vertex.x * pixelsPerMeterX - cellWidth / 2, vertex.y * pixelsPerMeterY - cellHeight / 2, cellWidth, cellHeight)
+    }
+  }, [world, width, height, pixelsPerMeterX, pixelsPerMeterY])
+
+  useEffect(() => {
+    const ctx = viewCanvasRef.current?.getContext('2d')
+    if (!ctx) return
+
+    ctx.clearRect(0, 0, width, height)
+    if (canvasWidth === 0 || canvasHeight === 0 || !world.vertices.length) return
+
+    // The main canvas corners, in world meters and then minimap pixels
+    const { toWorld } = createWorldTransform(world, canvasWidth, canvasHeight, view.zoom, view.panX, view.panY)
+    const topLeft = toWorld(0, 0)
+    const bottomRight = toWorld(canvasWidth, canvasHeight)
+    const x = topLeft.x * pixelsPerMeterX
+    const y = topLeft.y * pixelsPerMeterY
+    const w = (bottomRight.x - topLeft.x) * pixelsPerMeterX
+    const h = (bottomRight.y - topLeft.y) * pixelsPerMeterY
+
+    ctx.fillStyle = 'rgba(235, 219, 178, 0.12)'
+    ctx.fillRect(x, y, w, h)
+    ctx.strokeStyle = '#ebdbb2'
+    ctx.lineWidth = 1.5
+    ctx.strokeRect(x, y, w, h)
+  }, [world, view, canvasWidth, canvasHeight, width, height, pixelsPerMeterX, pixelsPerMeterY])
+
+  const centerOnPointer = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    const fractionX = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width))
+    const fractionY = Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height))
+    onCenterOn(fractionX * worldWidthMeters, fractionY * worldHeightMeters)
+  }
+
+  // Click to jump, drag to keep the main view following the pointer
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.button !== 0) return
+    e.currentTarget.setPointerCapture(e.pointerId)
+    isDraggingRef.current = true
+    centerOnPointer(e)
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (isDraggingRef.current) {
+      centerOnPointer(e)
+    }
+  }
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    isDraggingRef.current = false
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId)
+    }
+  }
+
+  return (
+    <div className="relative bg-surface border border-border rounded-lg shadow-lg overflow-hidden">
+      <canvas ref={worldCanvasRef} width={width} height={height} className="block" />
+      <canvas
+        ref={viewCanvasRef}
+        width={width}
+        height={height}
+        className="absolute inset-0 block cursor-pointer"
+        title="Click or drag to move the view"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      />
+    </div>
+  )
+}
@@ -88,6 +88,14 @@ const VertexTooltip: React.FC<VertexTooltipProps> = ({
           </span>
         </div>
 
+        {/* Elevation */}
+        {vertex.elevation !== undefined && (
+          <div>
+            <span className="text-gray-400">Elevation:</span>
+            <span className="ml-2 font-mono text-xs">{vertex.elevation} m</span>
+          </div>
+        )}
+
         {/* Name */}
         <div>
           <span className="text-gray-400">Name:</span>
@@ -1,7 +1,16 @@
-import React from 'react';
-import type { WorldGenerationResult } from '../../../worldgen/types';
+import React, { useCallback, useEffect, useState } from 'react';
+import type { WorldGenerationResult, WorldVertex } from '../../../worldgen/types';
 import type { ViewMode } from '../WorldGenTool';
 import { Canvas } from './Canvas';
+import { WorldDiffView } from './WorldDiffView';
+import { WorldEditPanel } from './WorldEditPanel';
+import { ZoomPanControls } from './ZoomPanControls';
+import { Minimap } from './Minimap';
+import { ColorSchemeLegend } from './ColorSchemeLegend';
+import { useViewTransform, PAN_STEP } from '../hooks/useViewTransform';
+import { COLOR_SCHEMES, getPanToCenter, type ColorScheme } from '../rendering';
+import { addConnection, areVerticesAdjacent, removeConnection } from '../../../worldgen/editing';
+import { countResourceNodes } from '../../../worldgen/resources';
 import type { EcosystemURN, Biome } from '@flux';
 
 // Helper functions for URN handling
@@ -19,7 +28,18 @@ function getEcosystemDisplayName(ecosystemURN: EcosystemURN): string {
 }
 
 
-interface ViewportProps {
+type WorldEdit = (world: WorldGenerationResult) => WorldGenerationResult
+
+// Hand-editing of the current world, with undo history
+interface WorldEditingProps {
+  onEdit: (edit: WorldEdit) => void
+  onUndo: () => void
+  onRedo: () => void
+  canUndo: boolean
+  canRedo: boolean
+}
+
+interface ViewportProps extends WorldEditingProps {
   world: WorldGenerationResult | null
   viewMode: ViewMode
   onViewModeChange: (mode: ViewMode) => void
@@ -28,7 +48,8 @@ interface ViewportProps {
 export const Viewport: React.FC<ViewportProps> = ({
   world,
   viewMode,
-  onViewModeChange
+  onViewModeChange,
+  ...editing
 }) => {
   return (
     <div className="h-full bg-background relative">
@@ -54,12 +75,24 @@ export const Viewport: React.FC<ViewportProps> = ({
         >
           Analysis
         </button>
+        <button
+          onClick={() => onViewModeChange('diff')}
+          className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-accent border shadow-lg ${
+            viewMode === 'diff'
+              ? 'bg-accent text-background border-accent'
+              : 'bg-surface text-text hover:bg-surface-bright border-border'
+          }`}
+        >
+          Diff
+        </button>
       </div>
 
       {/* Main Content Area */}
       <div className="h-full">
         {viewMode === 'graph' ? (
-          <GraphView world={world} />
+          <GraphView world={world} {...editing} />
+        ) : viewMode === 'diff' ? (
+          <WorldDiffView />
         ) : (
           <AnalysisView world={world} />
         )}
@@ -68,20 +101,234 @@ export const Viewport: React.FC<ViewportProps> = ({
   )
 }
 
-interface GraphViewProps {
+interface GraphViewProps extends WorldEditingProps {
   world: WorldGenerationResult | null
 }
 
-const GraphView: React.FC<GraphViewProps> = ({ world }) => {
+const GraphView: React.FC<GraphViewProps> = ({ world, onEdit, onUndo, onRedo, canUndo, canRedo }) => {
+  const [showHillshade, setShowHillshade] = useState(false)
+  const [colorScheme, setColorScheme] = useState<ColorScheme>(world?.config.colorScheme ?? 'default')
+  const [traceFromId, setTraceFromId] = useState<string | undefined>(undefined)
+  const [isEditing, setIsEditing] = useState(false)
+  const [selectedVertexId, setSelectedVertexId] = useState<string | undefined>(undefined)
+  const [editError, setEditError] = useState<string | null>(null)
+  const { view, zoomAt, zoomIn, zoomOut, panBy, panTo, resetView } = useViewTransform()
+  const [canvasSize, setCanvasSize] = useState({ width: 0, height: 0 })
+  const handleCanvasResize = useCallback((width: number, height: number) => setCanvasSize({ width, height }), [])
+
+  // Spawn IDs are per world; start again from the origin when the world changes
+  useEffect(() => {
+    setTraceFromId(undefined)
+    resetView()
+  }, [world?.config, resetView])
+
+  // A new world brings its configured color scheme; switching afterwards is live
+  useEffect(() => {
+    setColorScheme(world?.config.colorScheme ?? 'default')
+  }, [world?.config])
+
+  // View shortcuts: +/- zoom, arrow keys pan, 0 resets
+  useEffect(() => {
+    if (!world) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement
+      if (e.ctrlKey || e.metaKey || e.altKey || ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName)) return
+
+      const actions: Record<string, () => void> = {
+        '+': zoomIn,
+        '=': zoomIn,
+        '-': zoomOut,
+        '0': resetView,
+        ArrowUp: () => panBy(0, PAN_STEP),
+        ArrowDown: () => panBy(0, -PAN_STEP),
+        ArrowLeft: () => panBy(PAN_STEP, 0),
+        ArrowRight: () => panBy(-PAN_STEP, 0)
+      }
+      const action = actions[e.key]
+      if (action) {
+        e.preventDefault()
+        action()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [world, zoomIn, zoomOut, panBy, resetView])
+
+  // Vertex IDs survive edits but not a new world
+  useEffect(() => {
+    setSelectedVertexId(undefined)
+    setEditError(null)
+  }, [world?.config, isEditing])
+
+  // Undo and redo shortcuts while editing, unless typing in a field
+  useEffect(() => {
+    if (!isEditing) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.target instanceof HTMLInputElement) return
+      const key = e.key.toLowerCase()
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault()
+        onUndo()
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault()
+        onRedo()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [isEditing, onUndo, onRedo])
+
+  // Edits that break a rule (e.g. connecting distant places) are reported, not applied
+  const tryEdit = (edit: WorldEdit) => {
+    try {
+      onEdit(edit)
+      setEditError(null)
+    } catch (err) {
+      setEditError(err instanceof Error ? err.message : 'Edit failed')
+    }
+  }
+
+  const selectedVertex = world?.vertices.find(v => v.id === selectedVertexId) ?? null
+
+  // Select a place, then click a neighbour to toggle the connection between them
+  const handleEditClick = (vertex: WorldVertex | null) => {
+    if (!world || !vertex || vertex.id === selectedVertexId) {
+      setSelectedVertexId(undefined)
+      return
+    }
+    if (!selectedVertex || !areVerticesAdjacent(world, selectedVertex, vertex)) {
+      setSelectedVertexId(vertex.id)
+      return
+    }
+
+    const isConnected = selectedVertex.connections.includes(vertex.id)
+    tryEdit(current => isConnected
+      ? removeConnection(current, selectedVertex.id, vertex.id)
+      : addConnection(current, selectedVertex.id, vertex.id))
+  }
+
+  // Recentre the main view on a world point picked on the minimap, keeping the zoom
+  const centerOn = (x: number, y: number) => {
+    if (!world || canvasSize.width === 0 || canvasSize.height === 0) return
+    const { panX, panY } = getPanToCenter(world, canvasSize.width, canvasSize.height, view.zoom, x, y)
+    panTo(panX, panY)
+  }
+
+  const spawnVertices = world
+    ? world.vertices.filter(v => v.spawnIndex).sort((a, b) => a.spawnIndex! - b.spawnIndex!)
+    : []
 
   return (
     <div className="h-full w-full flex items-start justify-start relative">
       <Canvas
         world={world}
-        zoom={1}
-        panX={0}
-        panY={0}
+        zoom={view.zoom}
+        panX={view.panX}
+        panY={view.panY}
+        onZoomAt={zoomAt}
+        onPan={panBy}
+        onResize={handleCanvasResize}
+        showHillshade={showHillshade}
+        colorScheme={colorScheme}
+        traceFromId={traceFromId}
+        selectedVertexId={isEditing ? selectedVertexId : undefined}
+        onVertexClick={isEditing ? handleEditClick : undefined}
       />
+      {world && (
+        <div className="absolute top-6 left-6 z-40 flex flex-wrap items-start gap-2">
+          <button
+            onClick={() => setShowHillshade(!showHillshade)}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-accent border shadow-lg ${
+              showHillshade
+                ? 'bg-accent text-background border-accent'
+                : 'bg-surface text-text hover:bg-surface-bright border-border'
+            }`}
+            title="Shade terrain by elevation"
+          >
+            Hillshade
+          </button>
+          <button
+            onClick={() => setIsEditing(!isEditing)}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-accent border shadow-lg ${
+              isEditing
+                ? 'bg-accent text-background border-accent'
+                : 'bg-surface text-text hover:bg-surface-bright border-border'
+            }`}
+            title="Hand-edit connections, ecosystems and names"
+          >
+            Edit
+          </button>
+          <select
+            value={colorScheme}
+            onChange={(e) => setColorScheme(e.target.value as ColorScheme)}
+            className="px-3 py-2 rounded-lg text-sm bg-surface text-text border border-border shadow-lg focus:outline-none focus:ring-2 focus:ring-accent"
+            title="Color places and rivers by"
+          >
+            {COLOR_SCHEMES.map(scheme => (
+              <option key={scheme} value={scheme}>
+                {scheme.charAt(0).toUpperCase() + scheme.slice(1)} colors
+              </option>
+            ))}
+          </select>
+          {spawnVertices.length > 0 && (
+            <select
+              value={traceFromId ?? ''}
+              onChange={(e) => setTraceFromId(e.target.value || undefined)}
+              className="px-3 py-2 rounded-lg text-sm bg-surface text-text border border-border shadow-lg focus:outline-none focus:ring-2 focus:ring-accent"
+              title="Trace paths from this spawn point"
+            >
+              <option value="">From origin</option>
+              {spawnVertices.map(vertex => (
+                <option key={vertex.id} value={vertex.id}>
+                  From spawn {vertex.spawnIndex}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+      )}
+      {world && (
+        <ZoomPanControls
+          zoom={view.zoom}
+          onZoomIn={zoomIn}
+          onZoomOut={zoomOut}
+          onPanUp={() => panBy(0, PAN_STEP)}
+          onPanDown={() => panBy(0, -PAN_STEP)}
+          onPanLeft={() => panBy(PAN_STEP, 0)}
+          onPanRight={() => panBy(-PAN_STEP, 0)}
+          onResetView={resetView}
+        />
+      )}
+      {world && (
+        <div className="absolute bottom-6 left-6 z-40 flex flex-col items-start gap-2">
+          <ColorSchemeLegend world={world} colorScheme={colorScheme} />
+          <Minimap
+            world={world}
+            view={view}
+            canvasWidth={canvasSize.width}
+            canvasHeight={canvasSize.height}
+            onCenterOn={centerOn}
+          />
+        </div>
+      )}
+      {world && isEditing && (
+        <div className="absolute top-20 left-6 z-40">
+          <WorldEditPanel
+            world={world}
+            selectedVertex={selectedVertex}
+            error={editError}
+            onEdit={tryEdit}
+            onUndo={onUndo}
+            onRedo={onRedo}
+            canUndo={canUndo}
+            canRedo={canRedo}
+          />
+        </div>
+      )}
       {!world && (
         <div className="absolute inset-0 flex items-center justify-center">
           <div className="text-center">
@@ -173,6 +420,18 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ world }) => {
                 {world.connectivityStats.avgConnectionsPerVertex.toFixed(2)}
               </span>
             </div>
+            <div>
+              <span className="text-text-dim">Largest Component:</span>
+              <span className="ml-2 text-text">
+                {world.connectivityStats.largestComponentSize} vertices
+              </span>
+            </div>
+            <div>
+              <span className="text-text-dim">Unreachable from Origin:</span>
+              <span className={`ml-2 ${world.connectivityStats.unreachableFromOrigin.length > 0 ? 'text-danger' : 'text-text'}`}>
+                {world.connectivityStats.unreachableFromOrigin.length} vertices
+              </span>
+            </div>
           </div>
         </div>
 
@@ -195,6 +454,38 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ world }) => {
           </div>
         </div>
 
+        {world.resourceNodes && (
+          <div className="card">
+            <h3 className="text-lg font-semibold text-text-bright mb-4">
+              Resource Distribution
+            </h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-text-dim text-left">
+                  <th className="font-normal pb-2">Resource</th>
+                  <th className="font-normal pb-2 text-right">Places</th>
+                  <th className="font-normal pb-2 text-right">% of Places</th>
+                  <th className="font-normal pb-2 text-right">Total Quantity</th>
+                </tr>
+              </thead>
+              <tbody>
+                {Object.entries(countResourceNodes(world.resourceNodes))
+                  .sort(([a], [b]) => a.localeCompare(b))
+                  .map(([resource, { places, quantity }]) => (
+                    <tr key={resource}>
+                      <td className="text-text-dim">{resource}</td>
+                      <td className="text-text text-right">{places}</td>
+                      <td className="text-text text-right">
+                        {((places / world.vertices.length) * 100).toFixed(1)}%
+                      </td>
+                      <td className="text-text text-right">{quantity}</td>
+                    </tr>
+                  ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
         <div className="card">
           <h3 className="text-lg font-semibold text-text-bright mb-4">
             Connection Analysis
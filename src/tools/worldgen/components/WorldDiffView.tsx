@@ -0,0 +1,123 @@
+import React, { useMemo, useState } from 'react'
+import type { WorldGenerationResult, WorldDiff } from '../../../worldgen/types'
+import { diffWorlds, exportWorldDiffToJSON, isWorldDiffEmpty } from '../../../worldgen/diff'
+import { reconstructWorldFromJSONL } from '../../../worldgen/import'
+import { downloadFile } from '../../../worldgen/export'
+import { DIFF_COLORS } from '../rendering'
+import { Canvas } from './Canvas'
+
+type DiffSide = 'before' | 'after'
+
+// Legend rows: overlay color and the diff entries it marks
+const DIFF_LEGEND: Array<{ key: keyof WorldDiff; label: string; color: string }> = [
+  { key: 'addedPlaces', label: 'Added places', color: DIFF_COLORS.added },
+  { key: 'removedPlaces', label: 'Removed places', color: DIFF_COLORS.removed },
+  { key: 'changedEcosystems', label: 'Changed ecosystems', color: DIFF_COLORS.changed },
+  { key: 'addedExits', label: 'Added exits', color: DIFF_COLORS.added },
+  { key: 'removedExits', label: 'Removed exits', color: DIFF_COLORS.removed }
+]
+
+const FILE_INPUT_CLASSES = `block w-full text-sm text-text-dim
+  file:mr-3 file:py-1 file:px-3
+  file:rounded-lg file:border-0
+  file:text-sm file:font-semibold
+  file:bg-accent file:text-background
+  hover:file:bg-accent/90
+  cursor-pointer`
+
+export const WorldDiffView: React.FC = () => {
+  const [worlds, setWorlds] = useState<Partial<Record<DiffSide, WorldGenerationResult>>>({})
+  const [error, setError] = useState<string | null>(null)
+
+  const handleFileChange = async (side: DiffSide, event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    try {
+      setError(null)
+      const world = reconstructWorldFromJSONL(await file.text())
+      setWorlds(current => ({ ...current, [side]: world }))
+    } catch (err) {
+      console.error(`Failed to load ${side} world:`, err)
+      setError(`${file.name}: ${err instanceof Error ? err.message : 'Import failed'}`)
+      setWorlds(current => ({ ...current, [side]: undefined }))
+    }
+  }
+
+  const { before, after } = worlds
+  // Diffing derives every exit of both worlds, so only redo it when a file changes
+  const diff = useMemo(
+    () => (before && after ? diffWorlds(before, after) : undefined),
+    [before, after]
+  )
+
+  const handleExport = () => {
+    if (!diff) return
+    downloadFile(exportWorldDiffToJSON(diff), 'world-diff.json', 'application/json')
+  }
+
+  return (
+    <div className="h-full w-full flex items-start justify-start relative">
+      <Canvas
+        world={after ?? null}
+        zoom={1}
+        panX={0}
+        panY={0}
+        diff={diff}
+      />
+
+      <div className="absolute top-6 left-6 z-40 w-80 bg-surface border border-border rounded-lg shadow-lg p-4 space-y-3 text-sm">
+        {(['before', 'after'] as const).map(side => (
+          <label key={side} className="block space-y-1">
+            <span className="text-text-bright font-medium capitalize">{side}</span>
+            <input
+              type="file"
+              accept=".jsonl"
+              onChange={event => handleFileChange(side, event)}
+              className={FILE_INPUT_CLASSES}
+            />
+          </label>
+        ))}
+
+        {error && (
+          <p className="text-danger break-words">{error}</p>
+        )}
+
+        {diff && (
+          <>
+            <ul className="space-y-1 border-t border-border pt-3">
+              {DIFF_LEGEND.map(({ key, label, color }) => (
+                <li key={key} className="flex items-center justify-between gap-2">
+                  <span className="flex items-center gap-2 text-text-dim">
+                    <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: color }} />
+                    {label}
+                  </span>
+                  <span className="text-text font-mono">{diff[key].length}</span>
+                </li>
+              ))}
+            </ul>
+            {isWorldDiffEmpty(diff) && (
+              <p className="text-text-dim">The worlds are identical</p>
+            )}
+            <button onClick={handleExport} className="btn btn-secondary w-full">
+              Export diff as JSON
+            </button>
+          </>
+        )}
+      </div>
+
+      {!after && (
+        <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+          <div className="text-center">
+            <h3 className="text-xl font-semibold text-text-bright mb-2">
+              No Worlds to Compare
+            </h3>
+            <p className="text-text-dim">
+              Load a before and an after JSONL file to see what changed
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,138 @@
+import React, { useMemo, useState } from 'react'
+import type { EcosystemURN } from '@flux'
+import type { WorldGenerationResult, WorldVertex } from '../../../worldgen/types'
+import { ECOSYSTEM_URNS } from '../../../worldgen/types'
+import { renamePlace, setVertexEcosystem, validateEditedWorld } from '../../../worldgen/editing'
+import { generatePlaceTexts } from '../../../worldgen/naming'
+import { createRandomStreams } from '../../../worldgen/random'
+
+type WorldEdit = (world: WorldGenerationResult) => WorldGenerationResult
+
+interface WorldEditPanelProps {
+  world: WorldGenerationResult
+  selectedVertex: WorldVertex | null
+  error: string | null
+  onEdit: (edit: WorldEdit) => void
+  onUndo: () => void
+  onRedo: () => void
+  canUndo: boolean
+  canRedo: boolean
+}
+
+export const WorldEditPanel: React.FC<WorldEditPanelProps> = ({
+  world,
+  selectedVertex,
+  error,
+  onEdit,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo
+}) => {
+  // Generated names show what a place is called until it is renamed
+  const placeTexts = useMemo(
+    () => generatePlaceTexts(world.vertices, createRandomStreams(world.config.seed ?? 0).seedOf('naming')),
+    [world]
+  )
+
+  // Reported alongside the edits so a world that already has them can be repaired
+  const issues = useMemo(() => validateEditedWorld(world), [world])
+
+  return (
+    <div className="w-72 bg-surface border border-border rounded-lg shadow-lg p-4 space-y-3 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-text-bright font-medium">Edit World</span>
+        <div className="flex gap-2">
+          <button onClick={onUndo} disabled={!canUndo} className="btn btn-secondary px-3 py-1" title="Undo (Ctrl+Z)">
+            Undo
+          </button>
+          <button onClick={onRedo} disabled={!canRedo} className="btn btn-secondary px-3 py-1" title="Redo (Ctrl+Shift+Z)">
+            Redo
+          </button>
+        </div>
+      </div>
+
+      <p className="text-text-dim">
+        {selectedVertex
+          ? 'Click a neighbouring place to connect or disconnect it.'
+          : 'Click a place to select it.'}
+      </p>
+
+      {selectedVertex && (
+        <PlaceEditor
+          key={`${selectedVertex.id}:${selectedVertex.name ?? ''}`}
+          vertex={selectedVertex}
+          generatedName={placeTexts.get(selectedVertex.id)?.name ?? ''}
+          onEdit={onEdit}
+        />
+      )}
+
+      {error && (
+        <p className="text-danger break-words">{error}</p>
+      )}
+
+      {issues.length > 0 && (
+        <ul className="max-h-32 overflow-y-auto bg-background rounded-lg p-2 space-y-1 text-xs font-mono break-words">
+          {issues.map((issue, index) => (
+            <li key={index} className={issue.severity === 'error' ? 'text-danger' : 'text-warning'}>
+              {issue.placeId && <span className="text-text-dim">{issue.placeId} · </span>}
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+interface PlaceEditorProps {
+  vertex: WorldVertex
+  generatedName: string
+  onEdit: (edit: WorldEdit) => void
+}
+
+const PlaceEditor: React.FC<PlaceEditorProps> = ({ vertex, generatedName, onEdit }) => {
+  const [draftName, setDraftName] = useState(vertex.name ?? '')
+
+  const commitName = () => {
+    onEdit(world => renamePlace(world, vertex.id, draftName))
+  }
+
+  return (
+    <div className="space-y-3 border-t border-border pt-3">
+      <div className="font-mono text-xs text-text-dim break-all">{vertex.placeId}</div>
+
+      <label className="block space-y-1">
+        <span className="text-text-dim">Ecosystem</span>
+        <select
+          value={vertex.ecosystem}
+          onChange={e => onEdit(world => setVertexEcosystem(world, vertex.id, e.target.value as EcosystemURN))}
+          className="input text-sm w-full"
+        >
+          {ECOSYSTEM_URNS.map(ecosystem => (
+            <option key={ecosystem} value={ecosystem}>{ecosystem}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="block space-y-1">
+        <span className="text-text-dim">Name</span>
+        <input
+          type="text"
+          value={draftName}
+          placeholder={generatedName}
+          onChange={e => setDraftName(e.target.value)}
+          onBlur={commitName}
+          onKeyDown={e => {
+            if (e.key === 'Enter') commitName()
+          }}
+          className="input text-sm w-full"
+        />
+      </label>
+
+      <div className="text-text-dim">
+        {vertex.connections.length} {vertex.connections.length === 1 ? 'exit' : 'exits'}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useViewTransform, zoomViewAt, DEFAULT_VIEW, MAX_ZOOM, MIN_ZOOM, PAN_STEP, ZOOM_STEP } from './useViewTransform';
+import { createWorldTransform, getCanvasCenter, getPanToCenter } from '../rendering';
+import type { WorldGenerationResult } from '~/worldgen/types';
+
+const CANVAS_WIDTH = 800;
+const CANVAS_HEIGHT = 600;
+
+// The transform only reads vertex positions
+const world = {
+  vertices: [
+    { x: 0, y: 0 },
+    { x: 31000, y: 11000 }
+  ]
+} as WorldGenerationResult;
+
+function toCanvas(view: typeof DEFAULT_VIEW, x: number, y: number) {
+  const { transform } = createWorldTransform(world, CANVAS_WIDTH, CANVAS_HEIGHT, view.zoom, view.panX, view.panY);
+  return transform(x, y);
+}
+
+describe('zoomViewAt', () => {
+  it('should keep the world point under the anchor fixed', () => {
+    const center = getCanvasCenter(CANVAS_WIDTH, CANVAS_HEIGHT);
+    const start = { zoom: 1.5, panX: 40, panY: -25 };
+    const worldPoint = { x: 12000, y: 4000 };
+    const before = toCanvas(start, worldPoint.x, worldPoint.y);
+
+    const zoomed = zoomViewAt(start, 2.5, before.x - center.x, before.y - center.y);
+    const after = toCanvas(zoomed, worldPoint.x, worldPoint.y);
+
+    expect(zoomed.zoom).toBe(3.75);
+    expect(after.x).toBeCloseTo(before.x, 9);
+    expect(after.y).toBeCloseTo(before.y, 9);
+  });
+
+  it('should zoom around the canvas centre for a zero anchor', () => {
+    const zoomed = zoomViewAt({ zoom: 1, panX: 10, panY: 20 }, 2, 0, 0);
+
+    expect(zoomed).toEqual({ zoom: 2, panX: 20, panY: 40 });
+  });
+
+  it('should clamp the zoom level', () => {
+    expect(zoomViewAt(DEFAULT_VIEW, 1000, 0, 0).zoom).toBe(MAX_ZOOM);
+    expect(zoomViewAt(DEFAULT_VIEW, 0.001, 0, 0).zoom).toBe(MIN_ZOOM);
+  });
+});
+
+describe('useViewTransform', () => {
+  it('should zoom, pan and reset the shared view', () => {
+    const { result } = renderHook(() => useViewTransform());
+
+    act(() => result.current.zoomIn());
+    expect(result.current.view.zoom).toBe(ZOOM_STEP);
+
+    act(() => result.current.panBy(PAN_STEP, -PAN_STEP));
+    expect(result.current.view).toEqual({ zoom: ZOOM_STEP, panX: PAN_STEP, panY: -PAN_STEP });
+
+    act(() => result.current.zoomOut());
+    expect(result.current.view.zoom).toBeCloseTo(1, 12);
+
+    act(() => result.current.resetView());
+    expect(result.current.view).toEqual(DEFAULT_VIEW);
+  });
+
+  it('should centre a world point when panning to it', () => {
+    const { result } = renderHook(() => useViewTransform());
+    act(() => result.current.zoomIn());
+
+    const { panX, panY } = getPanToCenter(world, CANVAS_WIDTH, CANVAS_HEIGHT, result.current.view.zoom, 25000, 3000);
+    act(() => result.current.panTo(panX, panY));
+
+    const center = getCanvasCenter(CANVAS_WIDTH, CANVAS_HEIGHT);
+    const pos = toCanvas(result.current.view, 25000, 3000);
+    expect(result.current.view.zoom).toBe(ZOOM_STEP);
+    expect(pos.x).toBeCloseTo(center.x, 9);
+    expect(pos.y).toBeCloseTo(center.y, 9);
+  });
+});
@@ -0,0 +1,65 @@
+import { useState, useCallback } from 'react';
+
+// Zoom and pan shared by the canvas, its hit testing and the zoom/pan controls
+export interface ViewTransform {
+  zoom: number
+  panX: number // Canvas pixels
+  panY: number
+}
+
+export const MIN_ZOOM = 0.5;
+export const MAX_ZOOM = 32;
+export const ZOOM_STEP = 1.25; // Factor per button press, key press or wheel notch
+export const PAN_STEP = 100; // Canvas pixels per button or key press
+
+export const DEFAULT_VIEW: ViewTransform = { zoom: 1, panX: 0, panY: 0 };
+
+/**
+ * Zoom by a factor while keeping one canvas point fixed. The anchor is given
+ * relative to the canvas centre, which is where zoom scales around (see getCanvasCenter).
+ */
+export function zoomViewAt(view: ViewTransform, factor: number, anchorX: number, anchorY: number): ViewTransform {
+  const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, view.zoom * factor));
+  const ratio = zoom / view.zoom;
+
+  // The world point under the anchor sits (anchor - pan) from the centre, scaled by zoom
+  return {
+    zoom,
+    panX: anchorX - (anchorX - view.panX) * ratio,
+    panY: anchorY - (anchorY - view.panY) * ratio
+  };
+}
+
+interface UseViewTransformReturn {
+  view: ViewTransform
+  zoomAt: (factor: number, anchorX: number, anchorY: number) => void
+  zoomIn: () => void
+  zoomOut: () => void
+  panBy: (dx: number, dy: number) => void
+  panTo: (panX: number, panY: number) => void
+  resetView: () => void
+}
+
+export const useViewTransform = (): UseViewTransformReturn => {
+  const [view, setView] = useState<ViewTransform>(DEFAULT_VIEW);
+
+  const zoomAt = useCallback((factor: number, anchorX: number, anchorY: number) => {
+    setView(current => zoomViewAt(current, factor, anchorX, anchorY));
+  }, []);
+
+  // Buttons and keys zoom around the canvas centre
+  const zoomIn = useCallback(() => zoomAt(ZOOM_STEP, 0, 0), [zoomAt]);
+  const zoomOut = useCallback(() => zoomAt(1 / ZOOM_STEP, 0, 0), [zoomAt]);
+
+  const panBy = useCallback((dx: number, dy: number) => {
+    setView(current => ({ ...current, panX: current.panX + dx, panY: current.panY + dy }));
+  }, []);
+
+  const panTo = useCallback((panX: number, panY: number) => {
+    setView(current => ({ ...current, panX, panY }));
+  }, []);
+
+  const resetView = useCallback(() => setView(DEFAULT_VIEW), []);
+
+  return { view, zoomAt, zoomIn, zoomOut, panBy, panTo, resetView };
+};
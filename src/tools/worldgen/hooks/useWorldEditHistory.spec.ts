@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useWorldEditHistory, MAX_UNDO_STEPS } from './useWorldEditHistory';
+import type { WorldGenerationResult } from '~/worldgen/types';
+
+// Edits only pass worlds around, so a stand-in carrying a revision number is enough
+function createWorld(revision: number): WorldGenerationResult {
+  return { version: `r${revision}` } as WorldGenerationResult;
+}
+
+const bump = (world: WorldGenerationResult) => createWorld(Number(world.version.slice(1)) + 1);
+
+describe('useWorldEditHistory', () => {
+  it('should start without a world or history', () => {
+    const { result } = renderHook(() => useWorldEditHistory());
+
+    expect(result.current.world).toBeNull();
+    expect(result.current.canUndo).toBe(false);
+    expect(result.current.canRedo).toBe(false);
+  });
+
+  it('should undo and redo edits in order', () => {
+    const { result } = renderHook(() => useWorldEditHistory());
+
+    act(() => result.current.resetWorld(createWorld(0)));
+    act(() => result.current.applyEdit(bump));
+    act(() => result.current.applyEdit(bump));
+    expect(result.current.world?.version).toBe('r2');
+
+    act(() => result.current.undo());
+    act(() => result.current.undo());
+    expect(result.current.world?.version).toBe('r0');
+    expect(result.current.canUndo).toBe(false);
+
+    act(() => result.current.redo());
+    expect(result.current.world?.version).toBe('r1');
+    expect(result.current.canRedo).toBe(true);
+  });
+
+  it('should discard redo steps when a new edit is applied', () => {
+    const { result } = renderHook(() => useWorldEditHistory());
+
+    act(() => result.current.resetWorld(createWorld(0)));
+    act(() => result.current.applyEdit(bump));
+    act(() => result.current.undo());
+    act(() => result.current.applyEdit(world => createWorld(Number(world.version.slice(1)) + 10)));
+
+    expect(result.current.world?.version).toBe('r10');
+    expect(result.current.canRedo).toBe(false);
+  });
+
+  it('should leave the history untouched when an edit throws or changes nothing', () => {
+    const { result } = renderHook(() => useWorldEditHistory());
+    act(() => result.current.resetWorld(createWorld(0)));
+
+    expect(() => act(() => result.current.applyEdit(() => {
+      throw new Error('Cannot connect');
+    }))).toThrow('Cannot connect');
+    act(() => result.current.applyEdit(world => world));
+
+    expect(result.current.world?.version).toBe('r0');
+    expect(result.current.canUndo).toBe(false);
+  });
+
+  it('should forget the history when the world is replaced', () => {
+    const { result } = renderHook(() => useWorldEditHistory());
+
+    act(() => result.current.resetWorld(createWorld(0)));
+    act(() => result.current.applyEdit(bump));
+    act(() => result.current.resetWorld(createWorld(5)));
+
+    expect(result.current.world?.version).toBe('r5');
+    expect(result.current.canUndo).toBe(false);
+  });
+
+  it('should keep at most the maximum number of undo steps', () => {
+    const { result } = renderHook(() => useWorldEditHistory());
+    act(() => result.current.resetWorld(createWorld(0)));
+
+    for (let i = 0; i < MAX_UNDO_STEPS + 5; i++) {
+      act(() => result.current.applyEdit(bump));
+    }
+    for (let i = 0; i < MAX_UNDO_STEPS + 5; i++) {
+      act(() => result.current.undo());
+    }
+
+    expect(result.current.world?.version).toBe('r5');
+  });
+});
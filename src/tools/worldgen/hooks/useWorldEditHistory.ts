@@ -0,0 +1,77 @@
+import { useState, useCallback } from 'react';
+import type { WorldGenerationResult } from '~/worldgen/types';
+
+// Oldest edits are dropped beyond this many undo steps
+export const MAX_UNDO_STEPS = 100;
+
+interface EditHistory {
+  past: WorldGenerationResult[]
+  present: WorldGenerationResult | null
+  future: WorldGenerationResult[]
+}
+
+interface UseWorldEditHistoryReturn {
+  world: WorldGenerationResult | null
+  // Replace the world and forget its history, e.g. after generating or importing
+  resetWorld: (world: WorldGenerationResult | null) => void
+  // Apply an edit to the current world; throws if the edit does, leaving the history untouched
+  applyEdit: (edit: (world: WorldGenerationResult) => WorldGenerationResult) => void
+  undo: () => void
+  redo: () => void
+  canUndo: boolean
+  canRedo: boolean
+}
+
+export const useWorldEditHistory = (): UseWorldEditHistoryReturn => {
+  const [history, setHistory] = useState<EditHistory>({ past: [], present: null, future: [] });
+
+  const resetWorld = useCallback((world: WorldGenerationResult | null) => {
+    setHistory({ past: [], present: world, future: [] });
+  }, []);
+
+  const applyEdit = useCallback((edit: (world: WorldGenerationResult) => WorldGenerationResult) => {
+    if (!history.present) return;
+
+    // Run the edit outside the state updater so its errors reach the caller
+    const next = edit(history.present);
+    if (next === history.present) return;
+
+    setHistory({
+      past: [...history.past, history.present].slice(-MAX_UNDO_STEPS),
+      present: next,
+      future: []
+    });
+  }, [history]);
+
+  const undo = useCallback(() => {
+    setHistory(current => {
+      if (current.past.length === 0 || !current.present) return current;
+      return {
+        past: current.past.slice(0, -1),
+        present: current.past[current.past.length - 1],
+        future: [current.present, ...current.future]
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(current => {
+      if (current.future.length === 0 || !current.present) return current;
+      return {
+        past: [...current.past, current.present],
+        present: current.future[0],
+        future: current.future.slice(1)
+      };
+    });
+  }, []);
+
+  return {
+    world: history.present,
+    resetWorld,
+    applyEdit,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0
+  };
+};
@@ -1,13 +1,40 @@
-import { useState, useCallback } from 'react';
-import type { WorldGenerationResult } from '~/worldgen/types';
-import { downloadJSONL, exportWorldToJSONL } from '~/worldgen/export';
-import { reconstructWorldFromJSONL } from '~/worldgen/import';
+import { useState, useCallback, useRef } from 'react';
+import type { WorldGenerationResult, WorldImportResult } from '~/worldgen/types';
+import { downloadBlob, downloadFile, exportWorldToJSONL, exportWorldToGraphML, exportWorldToGEXF } from '~/worldgen/export';
+import type { WorldExportOptions } from '~/worldgen/export';
+import { exportWorldToBinary } from '~/worldgen/binary';
+import { renderMapToPNG, renderMapToSVG } from '~/tools/worldgen/mapExport';
+import type { MapExportOptions } from '~/tools/worldgen/mapExport';
+import type { WorldImportMessage, WorldImportProgress, WorldImportResponse } from '~/workers/worldImport.worker';
+
+export type WorldExportFormat = 'jsonl' | 'graphml' | 'gexf' | 'binary';
+
+// Serializer, file extension and MIME type for each export format
+const EXPORT_FORMATS: Record<WorldExportFormat, {
+  serialize: (world: WorldGenerationResult, options: WorldExportOptions) => string | Uint8Array
+  extension: string
+  mimeType: string
+}> = {
+  jsonl: { serialize: exportWorldToJSONL, extension: 'jsonl', mimeType: 'text/plain' },
+  graphml: { serialize: exportWorldToGraphML, extension: 'graphml', mimeType: 'application/graphml+xml' },
+  gexf: { serialize: exportWorldToGEXF, extension: 'gexf', mimeType: 'application/xml' },
+  binary: { serialize: exportWorldToBinary, extension: 'fwb', mimeType: 'application/octet-stream' }
+};
+
+export type MapExportFormat = 'svg' | 'png';
 
 interface UseWorldIOReturn {
-  exportWorld: (world: WorldGenerationResult, seed: number) => Promise<void>
-  importWorld: (file: File) => Promise<WorldGenerationResult>
+  exportWorld: (
+    world: WorldGenerationResult,
+    seed: number,
+    format?: WorldExportFormat,
+    options?: WorldExportOptions
+  ) => Promise<void>
+  exportMap: (world: WorldGenerationResult, format: MapExportFormat, options?: MapExportOptions & { dpi?: number }) => Promise<void>
+  importWorld: (file: File) => Promise<WorldImportResult>
   isExporting: boolean
   isImporting: boolean
+  importProgress: WorldImportProgress | null
   error: string | null
   clearError: () => void
 }
@@ -15,9 +42,27 @@ interface UseWorldIOReturn {
 export const useWorldIO = (): UseWorldIOReturn => {
   const [isExporting, setIsExporting] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
+  const [importProgress, setImportProgress] = useState<WorldImportProgress | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const importWorkerRef = useRef<Worker | null>(null);
+
+  // Initialize the import worker lazily
+  const getImportWorker = useCallback(() => {
+    if (!importWorkerRef.current) {
+      importWorkerRef.current = new Worker(
+        new URL('~/workers/worldImport.worker.ts', import.meta.url),
+        { type: 'module' }
+      );
+    }
+    return importWorkerRef.current;
+  }, []);
 
-  const exportWorld = useCallback(async (world: WorldGenerationResult, seed: number) => {
+  const exportWorld = useCallback(async (
+    world: WorldGenerationResult,
+    seed: number,
+    format: WorldExportFormat = 'jsonl',
+    options: WorldExportOptions = {}
+  ) => {
     if (!world) {
       const errorMsg = 'No world to export';
       console.error(errorMsg);
@@ -29,22 +74,22 @@ export const useWorldIO = (): UseWorldIOReturn => {
     setError(null);
 
     try {
-      console.log('Exporting world to JSONL with origin URN format, seed:', seed);
+      console.log(`Exporting world to ${format.toUpperCase()} with origin URN format, seed:`, seed);
 
-      // Use the consolidated export function
-      const jsonlContent = exportWorldToJSONL(world);
+      // Use the consolidated export function for the chosen format
+      const { serialize, extension, mimeType } = EXPORT_FORMATS[format];
+      const content = serialize(world, options);
 
       // Compute SHA-256 hash of the content for deterministic filename
-      const encoder = new TextEncoder();
-      const data = encoder.encode(jsonlContent);
+      const data = typeof content === 'string' ? new TextEncoder().encode(content) : content;
       const hashBuffer = await crypto.subtle.digest('SHA-256', data);
       const hashArray = Array.from(new Uint8Array(hashBuffer));
       const hashHex = hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
 
       // Use full SHA-256 hash for filename (256-bit content integrity)
-      const filename = `${hashHex}.jsonl`;
+      const filename = `${hashHex}.${extension}`;
 
-      downloadJSONL(jsonlContent, filename);
+      downloadBlob(new Blob([data], { type: mimeType }), filename);
       console.log(`World exported successfully with origin URN: ${filename} (content hash: ${hashHex})`);
     } catch (err) {
       const errorMsg = err instanceof Error ? err.message : 'Export failed';
@@ -55,24 +100,84 @@ export const useWorldIO = (): UseWorldIOReturn => {
     }
   }, []);
 
-  const importWorld = useCallback(async (file: File): Promise<WorldGenerationResult> => {
+  const exportMap = useCallback(async (
+    world: WorldGenerationResult,
+    format: MapExportFormat,
+    options: MapExportOptions & { dpi?: number } = {}
+  ) => {
+    setIsExporting(true);
+    setError(null);
+
+    try {
+      const seed = world.config.seed ?? 'random';
+      if (format === 'svg') {
+        downloadFile(renderMapToSVG(world, options), `map-${seed}.svg`, 'image/svg+xml');
+      } else {
+        const dpi = options.dpi ?? 300;
+        downloadBlob(await renderMapToPNG(world, dpi, options), `map-${seed}-${dpi}dpi.png`);
+      }
+      console.log(`Map exported as ${format.toUpperCase()}`);
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Map export failed';
+      console.error('Map export failed:', err);
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setIsExporting(false);
+    }
+  }, []);
+
+  const importWorld = useCallback(async (file: File): Promise<WorldImportResult> => {
     if (!file) {
       throw new Error('No file provided');
     }
 
-    if (!file.name.endsWith('.jsonl')) {
-      throw new Error('Invalid file type. Please select a .jsonl file.');
+    if (!file.name.endsWith('.jsonl') && !file.name.endsWith('.fwb')) {
+      throw new Error('Invalid file type. Please select a .jsonl or .fwb file.');
     }
 
     setIsImporting(true);
+    setImportProgress({ bytesRead: 0, totalBytes: file.size, placesParsed: 0 });
     setError(null);
 
+    const worker = getImportWorker();
+
     try {
       console.log(`Importing world from ${file.name} (${file.size} bytes)`);
-      const content = await file.text();
-      const importedWorld = reconstructWorldFromJSONL(content);
-      console.log('World imported successfully:', importedWorld);
-      return importedWorld;
+      const result = await new Promise<WorldImportResult>((resolve, reject) => {
+        const cleanup = () => {
+          worker.removeEventListener('message', handleMessage);
+          worker.removeEventListener('error', handleError);
+        };
+
+        const handleMessage = (event: MessageEvent<WorldImportResponse>) => {
+          const { type, payload } = event.data;
+
+          if (type === 'IMPORT_PROGRESS') {
+            setImportProgress(payload as WorldImportProgress);
+          } else if (type === 'WORLD_IMPORTED') {
+            cleanup();
+            resolve(payload as WorldImportResult);
+          } else if (type === 'IMPORT_ERROR') {
+            cleanup();
+            reject(new Error(payload as string));
+          }
+        };
+
+        const handleError = (event: ErrorEvent) => {
+          cleanup();
+          reject(new Error(event.message));
+        };
+
+        worker.addEventListener('message', handleMessage);
+        worker.addEventListener('error', handleError);
+
+        const message: WorldImportMessage = { type: 'IMPORT_WORLD', payload: file };
+        worker.postMessage(message);
+      });
+      const { errorCount, warningCount } = result.report;
+      console.log(`World import finished with ${errorCount} errors and ${warningCount} warnings`);
+      return result;
     } catch (err) {
       const errorMsg = err instanceof Error ? err.message : 'Import failed';
       console.error('Import failed:', err);
@@ -80,8 +185,9 @@ export const useWorldIO = (): UseWorldIOReturn => {
       throw err;
     } finally {
       setIsImporting(false);
+      setImportProgress(null);
     }
-  }, []);
+  }, [getImportWorker]);
 
   const clearError = useCallback(() => {
     setError(null);
@@ -89,9 +195,11 @@ export const useWorldIO = (): UseWorldIOReturn => {
 
   return {
     exportWorld,
+    exportMap,
     importWorld,
     isExporting,
     isImporting,
+    importProgress,
     error,
     clearError
   };
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { generateWorld } from '~/worldgen/generator';
+import { createSvgContext, renderMapToSVG, setPngDpi } from './mapExport';
+
+function parseSvg(content: string): Document {
+  const doc = new DOMParser().parseFromString(content, 'image/svg+xml');
+  expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+  return doc;
+}
+
+// Smallest valid PNG: signature, IHDR for a 1×1 image and IEND
+function createMinimalPng(): Uint8Array {
+  return new Uint8Array([
+    0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+    0x00, 0x00, 0x00, 0x0d, 0x49, 0x48, 0x44, 0x52,
+    0x00, 0x00, 0x00, 0x01, 0x00, 0x00, 0x00, 0x01, 0x08, 0x06, 0x00, 0x00, 0x00,
+    0x1f, 0x15, 0xc4, 0x89,
+    0x00, 0x00, 0x00, 0x00, 0x49, 0x45, 0x4e, 0x44, 0xae, 0x42, 0x60, 0x82
+  ]);
+}
+
+describe('createSvgContext', () => {
+  it('should record canvas drawing calls as SVG elements', () => {
+    const ctx = createSvgContext(100, 50);
+    ctx.fillStyle = '#ff0000';
+    ctx.fillRect(10, 10, 20, 20);
+    ctx.beginPath();
+    ctx.arc(50, 25, 5, 0, 2 * Math.PI);
+    ctx.fill();
+    ctx.textAlign = 'center';
+    ctx.fillText('A & B', 50, 40);
+
+    const doc = parseSvg(ctx.toSVG());
+
+    expect(doc.documentElement.getAttribute('viewBox')).toBe('0 0 100 50');
+    expect(doc.getElementsByTagName('rect')[0].getAttribute('fill')).toBe('#ff0000');
+    expect(doc.getElementsByTagName('path')[0].getAttribute('d')).toMatch(/^M55 25A5 5 0 0 1 45 25A5 5 0 0 1 55 25$/);
+    expect(doc.getElementsByTagName('text')[0].textContent).toBe('A & B');
+    expect(doc.getElementsByTagName('text')[0].getAttribute('text-anchor')).toBe('middle');
+  });
+
+  it('should ignore invalid colors and restore saved state like a canvas', () => {
+    const ctx = createSvgContext(10, 10);
+    ctx.fillStyle = '#00ff00';
+    ctx.fillStyle = 'undefined20';
+    expect(ctx.fillStyle).toBe('#00ff00');
+
+    ctx.save();
+    ctx.globalAlpha = 0.5;
+    ctx.fillStyle = '#0000ff';
+    ctx.restore();
+
+    expect(ctx.globalAlpha).toBe(1);
+    expect(ctx.fillStyle).toBe('#00ff00');
+  });
+});
+
+describe('renderMapToSVG', () => {
+  it('should render the world with a legend and a scale bar', () => {
+    const world = generateWorld({ seed: 12345 });
+    const doc = parseSvg(renderMapToSVG(world, { width: 800 }));
+    const texts = Array.from(doc.getElementsByTagName('text')).map(text => text.textContent);
+
+    expect(Number(doc.documentElement.getAttribute('width'))).toBe(800);
+    expect(doc.getElementsByTagName('path').length).toBeGreaterThan(world.vertices.length);
+    expect(texts).toContain('Origin');
+    expect(texts.some(text => /^\d+(\.\d+)? k?m$/.test(text ?? ''))).toBe(true);
+    expect(texts).not.toContain('flux:place:origin');
+  });
+
+  it('should label places with their URNs when asked', () => {
+    const world = generateWorld({ seed: 12345 });
+    const doc = parseSvg(renderMapToSVG(world, { width: 800, showLabels: true }));
+    const texts = Array.from(doc.getElementsByTagName('text')).map(text => text.textContent);
+
+    expect(texts).toContain('flux:place:origin');
+    expect(texts.filter(text => text?.startsWith('flux:place:'))).toHaveLength(world.vertices.length);
+  });
+});
+
+describe('setPngDpi', () => {
+  it('should write a pHYs chunk after IHDR', () => {
+    const png = setPngDpi(createMinimalPng(), 300);
+    const view = new DataView(png.buffer);
+
+    // 11811 pixels per meter is 300 DPI
+    expect(String.fromCharCode(...png.subarray(37, 41))).toBe('pHYs');
+    expect(view.getUint32(41)).toBe(11811);
+    expect(view.getUint32(45)).toBe(11811);
+    expect(png[49]).toBe(1);
+    expect(view.getUint32(50)).toBe(0x78a53f76);
+    expect(String.fromCharCode(...png.subarray(58, 62))).toBe('IEND');
+  });
+
+  it('should replace an existing pHYs chunk', () => {
+    const png = setPngDpi(setPngDpi(createMinimalPng(), 150), 300);
+
+    expect(png.length).toBe(createMinimalPng().length + 21);
+    expect(new DataView(png.buffer).getUint32(41)).toBe(11811);
+  });
+
+  it('should reject data that is not a PNG', () => {
+    expect(() => setPngDpi(new Uint8Array(40), 300)).toThrow(/Invalid PNG/);
+  });
+});
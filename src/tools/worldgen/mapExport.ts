@@ -0,0 +1,420 @@
+/**
+ * Map Export
+ * Renders the world with the same drawing code as the canvas to a standalone
+ * SVG or a high-resolution PNG, with a legend, a scale bar and optional URN labels
+ */
+
+import type { WorldGenerationResult, PointOfInterestType } from '~/worldgen/types'
+import { escapeXml, getExportURN } from '~/worldgen/export'
+import {
+  BACKGROUND_COLOR,
+  NODE_COLORS,
+  POI_COLORS,
+  createWorldTransform,
+  drawWorld,
+  getBiomeFromURN,
+  tracePoiIcon
+} from './rendering'
+import type { MapContext } from './rendering'
+
+export interface MapExportOptions {
+  width?: number // CSS pixels; the map height follows the world's aspect ratio
+  showLabels?: boolean // Label every place with its URN
+  showHillshade?: boolean
+}
+
+const DEFAULT_MAP_WIDTH = 1600
+const LEGEND_HEIGHT = 96
+const MAX_PNG_DIMENSION = 16384 // Largest canvas most browsers will allocate
+
+const TEXT_COLOR = '#ebdbb2'
+const DIM_TEXT_COLOR = '#a89984'
+
+const POI_LABELS: Record<PointOfInterestType, string> = {
+  'summit': 'Summit',
+  'confluence': 'Confluence',
+  'band-crossing': 'Band crossing',
+  'hollow': 'Hollow'
+}
+
+// Colors the canvas accepts; like the canvas, the SVG recorder ignores anything else
+const CSS_COLOR = /^(#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})|(rgba?|hsla?)\(.*\)|[a-z]+)$/i
+
+const TEXT_ANCHORS: Record<CanvasTextAlign, string> = {
+  start: 'start',
+  left: 'start',
+  center: 'middle',
+  end: 'end',
+  right: 'end'
+}
+
+const DOMINANT_BASELINES: Record<CanvasTextBaseline, string> = {
+  top: 'text-before-edge',
+  hanging: 'hanging',
+  middle: 'middle',
+  alphabetic: 'alphabetic',
+  ideographic: 'ideographic',
+  bottom: 'text-after-edge'
+}
+
+// Round coordinates to keep the SVG compact
+const n = (value: number) => Number(value.toFixed(2))
+
+/**
+ * A MapContext that records drawing calls as SVG elements
+ */
+export function createSvgContext(width: number, height: number): MapContext & { toSVG(): string } {
+  const elements: string[] = []
+  let path = ''
+  let state = {
+    fillStyle: '#000000',
+    strokeStyle: '#000000',
+    lineWidth: 1,
+    globalAlpha: 1,
+    font: '10px sans-serif',
+    textAlign: 'start' as CanvasTextAlign,
+    textBaseline: 'alphabetic' as CanvasTextBaseline
+  }
+  const stack: Array<typeof state> = []
+
+  const opacity = () => state.globalAlpha < 1 ? ` opacity="${n(state.globalAlpha)}"` : ''
+  const point = (x: number, y: number) => `${n(x)} ${n(y)}`
+
+  return {
+    get fillStyle() { return state.fillStyle },
+    set fillStyle(value: string | CanvasGradient | CanvasPattern) {
+      if (typeof value === 'string' && CSS_COLOR.test(value)) state.fillStyle = value
+    },
+    get strokeStyle() { return state.strokeStyle },
+    set strokeStyle(value: string | CanvasGradient | CanvasPattern) {
+      if (typeof value === 'string' && CSS_COLOR.test(value)) state.strokeStyle = value
+    },
+    get lineWidth() { return state.lineWidth },
+    set lineWidth(value: number) {
+      if (Number.isFinite(value) && value > 0) state.lineWidth = value
+    },
+    get globalAlpha() { return state.globalAlpha },
+    set globalAlpha(value: number) {
+      if (value >= 0 && value <= 1) state.globalAlpha = value
+    },
+    get font() { return state.font },
+    set font(value: string) { state.font = value },
+    get textAlign() { return state.textAlign },
+    set textAlign(value: CanvasTextAlign) { state.textAlign = value },
+    get textBaseline() { return state.textBaseline },
+    set textBaseline(value: CanvasTextBaseline) { state.textBaseline = value },
+
+    save() {
+      stack.push({ ...state })
+    },
+    restore() {
+      state = stack.pop() ?? state
+    },
+
+    beginPath() {
+      path = ''
+    },
+    closePath() {
+      if (path) path += 'Z'
+    },
+    moveTo(x: number, y: number) {
+      path += `M${point(x, y)}`
+    },
+    lineTo(x: number, y: number) {
+      // Like the canvas, a line with no current point only moves there
+      path += `${path ? 'L' : 'M'}${point(x, y)}`
+    },
+    rect(x: number, y: number, w: number, h: number) {
+      path += `M${point(x, y)}h${n(w)}v${n(h)}h${n(-w)}Z`
+    },
+    arc(x: number, y: number, radius: number, startAngle: number, endAngle: number, counterclockwise = false) {
+      const at = (angle: number) => point(x + radius * Math.cos(angle), y + radius * Math.sin(angle))
+      const sweepFlag = counterclockwise ? 0 : 1
+      const sweep = counterclockwise ? startAngle - endAngle : endAngle - startAngle
+
+      path += `${path ? 'L' : 'M'}${at(startAngle)}`
+      if (sweep >= 2 * Math.PI) {
+        // One SVG arc can't close a full circle; draw it as two halves
+        const halfway = startAngle + (counterclockwise ? -Math.PI : Math.PI)
+        path += `A${n(radius)} ${n(radius)} 0 0 ${sweepFlag} ${at(halfway)}`
+        path += `A${n(radius)} ${n(radius)} 0 0 ${sweepFlag} ${at(startAngle)}`
+      } else {
+        const largeArc = ((sweep % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI) > Math.PI ? 1 : 0
+        path += `A${n(radius)} ${n(radius)} 0 ${largeArc} ${sweepFlag} ${at(endAngle)}`
+      }
+    },
+
+    fill() {
+      if (path) elements.push(`<path d="${path}" fill="${state.fillStyle}"${opacity()}/>`)
+    },
+    stroke() {
+      if (path) {
+        elements.push(
+          `<path d="${path}" fill="none" stroke="${state.strokeStyle}" stroke-width="${n(state.lineWidth)}"${opacity()}/>`
+        )
+      }
+    },
+    fillRect(x: number, y: number, w: number, h: number) {
+      elements.push(
+        `<rect x="${n(Math.min(x, x + w))}" y="${n(Math.min(y, y + h))}" width="${n(Math.abs(w))}" height="${n(Math.abs(h))}" ` +
+        `fill="${state.fillStyle}"${opacity()}/>`
+      )
+    },
+    fillText(text: string, x: number, y: number) {
+      elements.push(
+        `<text x="${n(x)}" y="${n(y)}" fill="${state.fillStyle}" style="font: ${escapeXml(state.font)}" ` +
+        `text-anchor="${TEXT_ANCHORS[state.textAlign]}" dominant-baseline="${DOMINANT_BASELINES[state.textBaseline]}"${opacity()}>` +
+        `${escapeXml(text)}</text>`
+      )
+    },
+
+    toSVG() {
+      return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+        ...elements,
+        '</svg>'
+      ].join('\n')
+    }
+  }
+}
+
+/**
+ * Map and total image size for an export of the given width
+ */
+function getMapSize(world: WorldGenerationResult, width: number) {
+  const { spatialMetrics } = world
+  const mapHeight = Math.round(width * spatialMetrics.worldHeightMeters / spatialMetrics.worldWidthMeters)
+  return { width, mapHeight, height: mapHeight + LEGEND_HEIGHT }
+}
+
+// Label each place with the URN it is exported under
+const drawURNLabels = (ctx: MapContext, world: WorldGenerationResult, transform: (x: number, y: number) => { x: number; y: number }) => {
+  ctx.fillStyle = DIM_TEXT_COLOR
+  ctx.font = '9px monospace'
+  ctx.textAlign = 'center'
+  ctx.textBaseline = 'top'
+  world.vertices.forEach(vertex => {
+    const pos = transform(vertex.x, vertex.y)
+    ctx.fillText(getExportURN(vertex), pos.x, pos.y + 10)
+  })
+}
+
+// Swatches for the biomes, markers and landmarks that appear on the map
+const drawLegend = (ctx: MapContext, world: WorldGenerationResult, top: number) => {
+  const biomes = new Set(world.vertices.map(vertex => getBiomeFromURN(vertex.ecosystem) as string))
+  const landmarks = new Set(world.vertices.flatMap(vertex => vertex.poi ? [vertex.poi] : []))
+  const hasSpawns = world.vertices.some(vertex => vertex.spawnIndex)
+  const columnWidth = 120
+
+  ctx.font = '12px sans-serif'
+  ctx.textAlign = 'left'
+  ctx.textBaseline = 'middle'
+
+  const label = (text: string, x: number, y: number) => {
+    ctx.fillStyle = TEXT_COLOR
+    ctx.fillText(text, x + 14, y)
+  }
+
+  const circle = (x: number, y: number, fill: string, border: string) => {
+    ctx.beginPath()
+    ctx.arc(x, y, 6, 0, 2 * Math.PI)
+    ctx.fillStyle = fill
+    ctx.fill()
+    ctx.strokeStyle = border
+    ctx.lineWidth = 2
+    ctx.stroke()
+  }
+
+  // First row: biomes
+  let x = 24
+  const biomeRow = top + 28
+  Object.entries(NODE_COLORS).forEach(([biome, color]) => {
+    if (!biomes.has(biome)) return
+    circle(x, biomeRow, color, BACKGROUND_COLOR)
+    label(biome.charAt(0).toUpperCase() + biome.slice(1), x, biomeRow)
+    x += columnWidth
+  })
+
+  // Second row: origin, spawns and landmarks
+  x = 24
+  const markerRow = top + 64
+  circle(x, markerRow, DIM_TEXT_COLOR, '#fb4934')
+  label('Origin', x, markerRow)
+  x += columnWidth
+
+  if (hasSpawns) {
+    circle(x, markerRow, DIM_TEXT_COLOR, '#fe8019')
+    label('Spawn point', x, markerRow)
+    x += columnWidth
+  }
+
+  Object.entries(POI_LABELS).forEach(([poi, text]) => {
+    if (!landmarks.has(poi as PointOfInterestType)) return
+    tracePoiIcon(ctx, poi as PointOfInterestType, x, markerRow, 6)
+    ctx.fillStyle = POI_COLORS[poi as PointOfInterestType]
+    ctx.fill()
+    ctx.strokeStyle = BACKGROUND_COLOR
+    ctx.lineWidth = 2
+    ctx.stroke()
+    label(text, x, markerRow)
+    x += columnWidth
+  })
+}
+
+// Scale bar of a round length, right-aligned at (right, y), with the world summary above it
+const drawScaleBar = (ctx: MapContext, world: WorldGenerationResult, scale: number, right: number, y: number) => {
+  // Longest 1, 2 or 5 × 10^n meters that fits in 160px
+  const maxMeters = 160 / scale
+  const magnitude = 10 ** Math.floor(Math.log10(maxMeters))
+  const meters = [5, 2, 1].map(step => step * magnitude).find(length => length <= maxMeters) ?? magnitude
+  const length = meters * scale
+  const left = right - length
+
+  ctx.strokeStyle = TEXT_COLOR
+  ctx.lineWidth = 2
+  ctx.beginPath()
+  ctx.moveTo(left, y - 5)
+  ctx.lineTo(left, y)
+  ctx.lineTo(right, y)
+  ctx.lineTo(right, y - 5)
+  ctx.stroke()
+
+  ctx.fillStyle = TEXT_COLOR
+  ctx.font = '12px sans-serif'
+  ctx.textAlign = 'center'
+  ctx.textBaseline = 'top'
+  ctx.fillText(meters >= 1000 ? `${meters / 1000} km` : `${meters} m`, left + length / 2, y + 6)
+
+  const { worldWidthKm, worldHeightKm, seed } = world.config
+  ctx.fillStyle = DIM_TEXT_COLOR
+  ctx.textAlign = 'right'
+  ctx.textBaseline = 'bottom'
+  ctx.fillText(`${worldWidthKm} × ${worldHeightKm} km · seed ${seed ?? 'random'}`, right, y - 16)
+}
+
+/**
+ * Draw the full map image: world, optional URN labels, legend and scale bar
+ */
+function renderMap(ctx: MapContext, world: WorldGenerationResult, options: MapExportOptions) {
+  const { width, mapHeight, height } = getMapSize(world, options.width ?? DEFAULT_MAP_WIDTH)
+
+  ctx.fillStyle = BACKGROUND_COLOR
+  ctx.fillRect(0, 0, width, height)
+
+  // The on-screen view lifts the graph 25px; pan it back so the export is centred
+  drawWorld(ctx, world, width, mapHeight, 1, 0, 25, [], 0, options.showHillshade)
+  const { transform, scale } = createWorldTransform(world, width, mapHeight, 1, 0, 25)
+
+  if (options.showLabels) {
+    drawURNLabels(ctx, world, transform)
+  }
+
+  // Legend strip below the map
+  ctx.strokeStyle = DIM_TEXT_COLOR
+  ctx.lineWidth = 1
+  ctx.beginPath()
+  ctx.moveTo(0, mapHeight)
+  ctx.lineTo(width, mapHeight)
+  ctx.stroke()
+
+  drawLegend(ctx, world, mapHeight)
+  drawScaleBar(ctx, world, scale, width - 24, mapHeight + LEGEND_HEIGHT / 2 + 12)
+}
+
+/**
+ * Render the world map as a standalone SVG document
+ */
+export function renderMapToSVG(world: WorldGenerationResult, options: MapExportOptions = {}): string {
+  const { width, height } = getMapSize(world, options.width ?? DEFAULT_MAP_WIDTH)
+  const ctx = createSvgContext(width, height)
+  renderMap(ctx, world, options)
+  return ctx.toSVG()
+}
+
+// CRC-32 as used by PNG chunks
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let c = index
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  }
+  return c >>> 0
+})
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * Record the print resolution in a PNG by writing a pHYs chunk after IHDR,
+ * replacing any existing one
+ */
+export function setPngDpi(png: Uint8Array, dpi: number): Uint8Array {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength)
+  const chunkType = (offset: number) => String.fromCharCode(...png.subarray(offset + 4, offset + 8))
+
+  if (png.length < 33 || view.getUint32(0) !== 0x89504e47 || chunkType(8) !== 'IHDR') {
+    throw new Error('Invalid PNG: missing signature or IHDR chunk')
+  }
+
+  const pixelsPerMeter = Math.round(dpi / 0.0254)
+  const phys = new Uint8Array(21)
+  const physView = new DataView(phys.buffer)
+  physView.setUint32(0, 9) // Data length
+  phys.set([0x70, 0x48, 0x59, 0x73], 4) // "pHYs"
+  physView.setUint32(8, pixelsPerMeter)
+  physView.setUint32(12, pixelsPerMeter)
+  phys[16] = 1 // Unit: meter
+  physView.setUint32(17, crc32(phys.subarray(4, 17)))
+
+  const chunks: Uint8Array[] = [png.subarray(0, 8)]
+  for (let offset = 8; offset < png.length;) {
+    const end = offset + 12 + view.getUint32(offset)
+    const type = chunkType(offset)
+    if (type !== 'pHYs') chunks.push(png.subarray(offset, end))
+    if (type === 'IHDR') chunks.push(phys)
+    offset = end
+  }
+
+  const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0))
+  chunks.reduce((offset, chunk) => {
+    result.set(chunk, offset)
+    return offset + chunk.length
+  }, 0)
+  return result
+}
+
+/**
+ * Render the world map as a PNG at the given print resolution (96 DPI = 1 pixel per CSS pixel)
+ */
+export async function renderMapToPNG(world: WorldGenerationResult, dpi: number, options: MapExportOptions = {}): Promise<Blob> {
+  const { width, height } = getMapSize(world, options.width ?? DEFAULT_MAP_WIDTH)
+  const pixelRatio = dpi / 96
+  const pixelWidth = Math.round(width * pixelRatio)
+  const pixelHeight = Math.round(height * pixelRatio)
+
+  if (pixelWidth > MAX_PNG_DIMENSION || pixelHeight > MAX_PNG_DIMENSION) {
+    throw new Error(`Map is too large at ${dpi} DPI (${pixelWidth} × ${pixelHeight} px); choose a lower DPI`)
+  }
+
+  const canvas = document.createElement('canvas')
+  canvas.width = pixelWidth
+  canvas.height = pixelHeight
+
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available')
+  }
+  ctx.scale(pixelRatio, pixelRatio)
+  renderMap(ctx, world, options)
+
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(result => result ? resolve(result) : reject(new Error('PNG encoding failed')), 'image/png')
+  })
+  const png = setPngDpi(new Uint8Array(await blob.arrayBuffer()), dpi)
+  return new Blob([png], { type: 'image/png' })
+}
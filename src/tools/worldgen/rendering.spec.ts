@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { FLOW_DIRECTION_COLORS, NODE_COLORS, TERRAIN_COLORS, getEdgeColor, getElevationRange, getRiverSteps, getVertexColor, shadeTerrainColor } from './rendering';
+import type { RiverEdge, WorldGenerationResult, WorldVertex } from '~/worldgen/types';
+
+function createVertex(id: string, elevation?: number, isOrigin = false): WorldVertex {
+  return { id, ecosystem: 'flux:eco:forest:temperate', elevation, isOrigin } as WorldVertex;
+}
+
+function createEdge(from: string, to: string, flowDirection: RiverEdge['flowDirection'] = 'eastward'): RiverEdge {
+  return { id: `${from}-${to}`, fromVertexId: from, toVertexId: to, flowDirection } as RiverEdge;
+}
+
+// A river o - a - b - c from the origin, plus a stranded place d
+function createWorld(): WorldGenerationResult {
+  return {
+    vertices: [createVertex('o', 0, true), createVertex('a', 50), createVertex('b', 100), createVertex('c', 100), createVertex('d')],
+    edges: [createEdge('o', 'a'), createEdge('b', 'a', 'westward'), createEdge('b', 'c', 'northward')],
+    config: {}
+  } as WorldGenerationResult;
+}
+
+describe('getRiverSteps', () => {
+  it('should count river steps from the origin, skipping unreachable places', () => {
+    const { steps, maxSteps } = getRiverSteps(createWorld());
+
+    expect(Object.fromEntries(steps)).toEqual({ o: 0, a: 1, b: 2, c: 3 });
+    expect(maxSteps).toBe(3);
+  });
+});
+
+describe('getElevationRange', () => {
+  it('should span the known elevations', () => {
+    expect(getElevationRange(createWorld().vertices)).toEqual({ min: 0, max: 100 });
+    expect(getElevationRange([createVertex('x')])).toBeNull();
+  });
+});
+
+describe('color schemes', () => {
+  const world = createWorld();
+  const [o, a, b, c] = world.vertices;
+
+  it('should keep the default ecosystem colors', () => {
+    expect(getVertexColor(world, o, 'default')).toBe(NODE_COLORS.forest);
+  });
+
+  it('should shade terrain by elevation around the biome tone', () => {
+    expect(getVertexColor(world, a, 'terrain')).toBe(TERRAIN_COLORS.forest);
+    expect(getVertexColor(world, o, 'terrain')).toBe(shadeTerrainColor(TERRAIN_COLORS.forest, 0));
+    expect(getVertexColor(world, b, 'terrain')).toBe(shadeTerrainColor(TERRAIN_COLORS.forest, 1));
+    expect(getVertexColor(world, world.vertices[4], 'terrain')).toBe(TERRAIN_COLORS.forest);
+  });
+
+  it('should color flow by direction, fading with distance from the origin', () => {
+    const [nearEdge, middleEdge, farEdge] = world.edges;
+
+    // Rivers leaving the origin keep their full direction color
+    expect(getEdgeColor(world, nearEdge, o, a, 'flow')).toBe(FLOW_DIRECTION_COLORS.eastward);
+    expect(getEdgeColor(world, createEdge('o', 'a', 'northward'), o, a, 'flow')).toBe(FLOW_DIRECTION_COLORS.northward);
+    expect(getEdgeColor(world, middleEdge, b, a, 'flow')).not.toBe(FLOW_DIRECTION_COLORS.westward);
+    expect(getEdgeColor(world, farEdge, b, c, 'flow')).not.toBe(FLOW_DIRECTION_COLORS.northward);
+  });
+
+  it('should mute flow colors of rivers the origin cannot reach', () => {
+    const d = world.vertices[4];
+
+    expect(getEdgeColor(world, createEdge('d', 'e'), d, createVertex('e'), 'flow')).not.toBe(FLOW_DIRECTION_COLORS.eastward);
+  });
+});
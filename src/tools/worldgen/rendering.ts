@@ -0,0 +1,783 @@
+/**
+ * World map drawing shared by the interactive canvas and the SVG / PNG map exports
+ */
+
+import type { WorldGenerationResult, WorldGenerationConfig, WorldVertex, RiverEdge, PointOfInterestType, WorldDiff } from '~/worldgen/types'
+import type { EcosystemURN, Biome } from 'flux-game'
+import { getSpatialIndex, getWorldBounds } from './spatialIndex'
+
+// The subset of the 2D canvas API the map is drawn with, so the same drawing
+// code can target an on-screen canvas or the SVG recorder in mapExport
+export type MapContext = Pick<CanvasRenderingContext2D,
+  | 'fillStyle' | 'strokeStyle' | 'lineWidth' | 'globalAlpha' | 'font' | 'textAlign' | 'textBaseline'
+  | 'save' | 'restore' | 'beginPath' | 'closePath' | 'moveTo' | 'lineTo' | 'arc' | 'rect'
+  | 'fill' | 'stroke' | 'fillRect' | 'fillText'
+>
+
+// Canvas background (Gruvbox hard background)
+export const BACKGROUND_COLOR = '#1d2021'
+
+// Helper function to extract biome from ecosystem URN
+export function getBiomeFromURN(ecosystemURN: EcosystemURN): Biome {
+  return ecosystemURN.split(':')[2] as Biome;
+}
+
+// Gruvbox Dark Material colors for ecosystems
+export const ECOSYSTEM_COLORS = {
+  'steppe': '#d79921',        // Yellow - dry steppe
+  'grassland': '#b8bb26',     // Green - grassland
+  'forest': '#689d6a',        // Aqua - forest
+  'mountain': '#928374',      // Gray - mountain
+  'jungle': '#98971a',        // Dark green - jungle
+  'marsh': '#8ec07c'          // Light aqua - marsh
+}
+
+// Ecosystem-specific node colors - fully saturated
+export const NODE_COLORS = {
+  'steppe': '#8b4513',         // Brown - earthy arid steppe
+  'grassland': '#ffff00',      // Fully saturated yellow
+  'forest': '#00ff00',         // Fully saturated green
+  'mountain': '#ff0000',       // Red - rocky mountains
+  'jungle': '#006400',         // Dark green - darker than forest
+  'marsh': '#4682B4'           // Steel blue - wetland water
+}
+
+// Earthy biome tones for the terrain color scheme, lightened or darkened by elevation
+export const TERRAIN_COLORS = {
+  'steppe': '#c2a05a',         // Dry ochre
+  'grassland': '#8fae4f',      // Meadow green
+  'forest': '#3f7a3a',         // Deep green
+  'mountain': '#8a7f73',       // Bare rock
+  'jungle': '#2f6b2a',         // Dense green
+  'marsh': '#5f8f7f'           // Murky teal
+}
+
+// River flow direction colors for the flow color scheme
+export const FLOW_DIRECTION_COLORS: Record<RiverEdge['flowDirection'], string> = {
+  'eastward': '#83a598',       // Blue
+  'westward': '#fe8019',       // Orange
+  'northward': '#b8bb26',      // Green
+  'southward': '#d3869b',      // Purple
+  'diagonal': '#fabd2f'        // Yellow
+}
+
+// Flow scheme rivers fade towards this color with distance from the origin
+export const FLOW_FAR_COLOR = '#3c3836'
+const FLOW_FADE = 0.75 // How far the furthest rivers fade
+const FLOW_UNREACHABLE_COLOR = '#665c54'
+const FLOW_VERTEX_COLOR = '#a89984' // Neutral places, so the rivers stand out
+
+// Point of interest icon colors
+export const POI_COLORS: Record<PointOfInterestType, string> = {
+  'summit': '#ebdbb2',         // Light - snowy peak
+  'confluence': '#83a598',     // Blue - meeting rivers
+  'band-crossing': '#fabd2f',  // Bright yellow - border marker
+  'hollow': '#d3869b'          // Purple - hidden dead end
+}
+
+// World diff overlay colors
+export const DIFF_COLORS = {
+  added: '#b8bb26',            // Green - only in the newer world
+  removed: '#fb4934',          // Red - only in the older world
+  changed: '#fabd2f'           // Yellow - ecosystem changed
+}
+
+const drawEcosystemBands = (ctx: MapContext, world: WorldGenerationResult, transform: (x: number, y: number) => { x: number; y: number }) => {
+  // Use actual ecosystem bands from world generation
+  world.ecosystemBands.forEach((band) => {
+    // Transform world coordinates to canvas coordinates
+    // Ecosystem bands span the full height of the world
+    const topLeft = transform(band.startX, 0)
+    const bottomRight = transform(band.endX, world.spatialMetrics.worldHeightMeters)
+
+    const canvasX = topLeft.x
+    const canvasY = topLeft.y
+    const canvasWidth = bottomRight.x - topLeft.x
+    const canvasHeight = bottomRight.y - topLeft.y
+
+    // Draw band background with low opacity
+    ctx.fillStyle = ECOSYSTEM_COLORS[band.ecosystem as keyof typeof ECOSYSTEM_COLORS] + '20' // 20 = ~12% opacity
+    ctx.fillRect(canvasX, canvasY, canvasWidth, canvasHeight)
+
+    // Draw band border
+    ctx.strokeStyle = ECOSYSTEM_COLORS[band.ecosystem as keyof typeof ECOSYSTEM_COLORS] + '40' // 40 = ~25% opacity
+    ctx.lineWidth = 1
+    ctx.beginPath()
+    ctx.moveTo(canvasX, canvasY)
+    ctx.lineTo(canvasX, canvasY + canvasHeight)
+    ctx.stroke()
+  })
+}
+
+// Canvas point the world centre is drawn at before panning; zoom scales around it
+export const getCanvasCenter = (canvasWidth: number, canvasHeight: number) => ({
+  x: canvasWidth / 2,
+  y: (canvasHeight / 2) - 25 // Center the graph vertically
+})
+
+// World-to-canvas mapping for a canvas of the given size, with zoom and pan applied
+export const createWorldTransform = (world: WorldGenerationResult, canvasWidth: number, canvasHeight: number, zoom: number, panX: number, panY: number) => {
+  // Reserve space at the top for URN labels
+  const availableCanvasHeight = canvasHeight
+
+  // Find world bounds from the vertices
+  const worldBounds = getWorldBounds(world.vertices)
+
+  const scaleX = canvasWidth / worldBounds.width
+  const scaleY = availableCanvasHeight / worldBounds.height
+  const baseScale = Math.min(scaleX, scaleY) * 0.9 // 90% to add padding
+  const scale = baseScale * zoom // Apply zoom multiplier
+
+  // Calculate offset to center the world in the available space (below URN area)
+  const worldCenterX = worldBounds.minX + worldBounds.width / 2
+  const worldCenterY = worldBounds.minY + worldBounds.height / 2
+  const { x: canvasCenterX, y: canvasCenterY } = getCanvasCenter(canvasWidth, availableCanvasHeight)
+
+  // Transform world coordinates to canvas coordinates (with zoom and pan)
+  const transform = (x: number, y: number) => ({
+    x: (x - worldCenterX) * scale + canvasCenterX + panX,
+    y: (y - worldCenterY) * scale + canvasCenterY + panY
+  })
+
+  // Inverse of transform, for hit testing and finding what is on screen
+  const toWorld = (canvasX: number, canvasY: number) => ({
+    x: (canvasX - canvasCenterX - panX) / scale + worldCenterX,
+    y: (canvasY - canvasCenterY - panY) / scale + worldCenterY
+  })
+
+  return { transform, toWorld, scale }
+}
+
+// Pan that puts a world point at the canvas centre at the given zoom, e.g. when recentring from the minimap
+export const getPanToCenter = (world: WorldGenerationResult, canvasWidth: number, canvasHeight: number, zoom: number, x: number, y: number) => {
+  const { transform } = createWorldTransform(world, canvasWidth, canvasHeight, zoom, 0, 0)
+  const center = getCanvasCenter(canvasWidth, canvasHeight)
+  const pos = transform(x, y)
+  return { panX: center.x - pos.x, panY: center.y - pos.y }
+}
+
+export const drawWorld = (ctx: MapContext, world: WorldGenerationResult, canvasWidth: number, canvasHeight: number, zoom: number, panX: number, panY: number, tracedPath: string[] = [], pulseStartTime: number = 0, showHillshade: boolean = false, colorScheme: ColorScheme = world.config.colorScheme ?? 'default') => {
+  if (!world.vertices.length) return
+
+  const view = getVisibleWorld(world, canvasWidth, canvasHeight, zoom, panX, panY)
+
+  // Draw ecosystem bands and hillshade first (background)
+  drawBackgroundLayer(ctx, world, view, showHillshade)
+
+  // Draw connections second (so they appear behind places)
+  drawConnections(ctx, world, view.index.vertexById, view.index.edgesOf(view.nearbyVertices), view.transform, colorScheme, tracedPath, pulseStartTime)
+
+  // Draw places last (so they appear on top)
+  drawVertices(ctx, world, view.visibleVertices, view.transform, colorScheme, tracedPath, pulseStartTime)
+
+  // Mark points of interest above their places
+  drawPointsOfInterest(ctx, view.visibleVertices, view.transform)
+}
+
+// The layer beneath the graph: ecosystem bands, then hillshade. Renderers that
+// draw the graph themselves (see webglRenderer) put this on a canvas behind it
+export const drawWorldBackground = (ctx: MapContext, world: WorldGenerationResult, canvasWidth: number, canvasHeight: number, zoom: number, panX: number, panY: number, showHillshade: boolean = false) => {
+  if (!world.vertices.length) return
+
+  drawBackgroundLayer(ctx, world, getVisibleWorld(world, canvasWidth, canvasHeight, zoom, panX, panY), showHillshade)
+}
+
+// The layer above the graph: point of interest icons
+export const drawWorldPointsOfInterest = (ctx: MapContext, world: WorldGenerationResult, canvasWidth: number, canvasHeight: number, zoom: number, panX: number, panY: number) => {
+  if (!world.vertices.length) return
+
+  const view = getVisibleWorld(world, canvasWidth, canvasHeight, zoom, panX, panY)
+  drawPointsOfInterest(ctx, view.visibleVertices, view.transform)
+}
+
+type VisibleWorld = ReturnType<typeof getVisibleWorld>
+
+// Canvas pixels beyond the edge within which places are still drawn
+const VISIBLE_MARGIN = 40
+
+// Cull to what is on screen: places within a margin wide enough for their
+// halos and icons, and edges reaching in from places just off screen
+const getVisibleWorld = (world: WorldGenerationResult, canvasWidth: number, canvasHeight: number, zoom: number, panX: number, panY: number) => {
+  const { transform, toWorld } = createWorldTransform(world, canvasWidth, canvasHeight, zoom, panX, panY)
+
+  const index = getSpatialIndex(world)
+  const topLeft = toWorld(-VISIBLE_MARGIN, -VISIBLE_MARGIN)
+  const bottomRight = toWorld(canvasWidth + VISIBLE_MARGIN, canvasHeight + VISIBLE_MARGIN)
+  const reach = index.maxEdgeLength
+  const nearbyVertices = index.queryRect(
+    Math.min(topLeft.x, bottomRight.x) - reach,
+    Math.min(topLeft.y, bottomRight.y) - reach,
+    Math.max(topLeft.x, bottomRight.x) + reach,
+    Math.max(topLeft.y, bottomRight.y) + reach
+  )
+  const visibleVertices = nearbyVertices.filter(vertex => {
+    const pos = transform(vertex.x, vertex.y)
+    return pos.x >= -VISIBLE_MARGIN && pos.x <= canvasWidth + VISIBLE_MARGIN &&
+      pos.y >= -VISIBLE_MARGIN && pos.y <= canvasHeight + VISIBLE_MARGIN
+  })
+
+  return { transform, index, nearbyVertices, visibleVertices }
+}
+
+const drawBackgroundLayer = (ctx: MapContext, world: WorldGenerationResult, view: VisibleWorld, showHillshade: boolean) => {
+  drawEcosystemBands(ctx, world, view.transform)
+
+  // Hillshade goes over the bands when elevation data is available
+  if (showHillshade) {
+    drawHillshade(ctx, world, view.visibleVertices, view.transform)
+  }
+}
+
+// Light from the north-west, 45 degrees above the horizon
+const HILLSHADE_AZIMUTH = (315 * Math.PI) / 180
+const HILLSHADE_ALTITUDE = (45 * Math.PI) / 180
+
+// Elevation by grid cell, built once per vertex array rather than every frame
+const elevationCache = new WeakMap<WorldVertex[], Map<string, number>>()
+
+const getElevationByCell = (vertices: WorldVertex[]) => {
+  let elevationByCell = elevationCache.get(vertices)
+  if (!elevationByCell) {
+    elevationByCell = new Map<string, number>()
+    for (const vertex of vertices) {
+      if (vertex.elevation !== undefined) {
+        elevationByCell.set(`${vertex.gridX},${vertex.gridY}`, vertex.elevation)
+      }
+    }
+    elevationCache.set(vertices, elevationByCell)
+  }
+  return elevationByCell
+}
+
+// Shade one grid cell per visible vertex using the elevation of its grid neighbours
+const drawHillshade = (
+  ctx: MapContext,
+  world: WorldGenerationResult,
+  visibleVertices: WorldVertex[],
+  transform: (x: number, y: number) => { x: number; y: number },
+) => {
+  const elevationByCell = getElevationByCell(world.vertices)
+  if (elevationByCell.size === 0) return
+
+  const spacing = world.spatialMetrics.placeSpacing
+  const origin = transform(0, 0)
+  const corner = transform(spacing, spacing)
+  const cellWidth = corner.x - origin.x
+  const cellHeight = corner.y - origin.y
+
+  ctx.save()
+  visibleVertices.forEach(vertex => {
+    const center = vertex.elevation
+    if (center === undefined) return
+
+    // Missing neighbours fall back to the centre height (flat on that side)
+    const at = (dx: number, dy: number) =>
+      elevationByCell.get(`${vertex.gridX + dx},${vertex.gridY + dy}`) ?? center
+
+    const dzdx = (at(1, 0) - at(-1, 0)) / (2 * spacing)
+    const dzdy = (at(0, 1) - at(0, -1)) / (2 * spacing)
+    const slope = Math.atan(Math.sqrt(dzdx * dzdx + dzdy * dzdy))
+    const aspect = Math.atan2(dzdy, -dzdx)
+
+    const shade = Math.max(0,
+      Math.cos(HILLSHADE_ALTITUDE) * Math.cos(slope) +
+      Math.sin(HILLSHADE_ALTITUDE) * Math.sin(slope) * Math.cos(HILLSHADE_AZIMUTH - aspect)
+    )
+
+    // Bright faces are lightened, shadowed faces darkened
+    const pos = transform(vertex.x, vertex.y)
+    ctx.fillStyle = shade >= Math.cos(HILLSHADE_ALTITUDE)
+      ? `rgba(251, 241, 199, ${Math.min(0.35, (shade - Math.cos(HILLSHADE_ALTITUDE)) * 2)})`
+      : `rgba(0, 0, 0, ${Math.min(0.6, (Math.cos(HILLSHADE_ALTITUDE) - shade) * 2)})`
+    ctx.fillRect(pos.x - cellWidth / 2, pos.y - cellHeight / 2, cellWidth, cellHeight)
+  })
+  ctx.restore()
+}
+
+// Helper function to blend two colors
+const blendColors = (color1: string, color2: string): string => {
+  const hex1 = color1.replace('#', '')
+  const hex2 = color2.replace('#', '')
+
+  const r1 = parseInt(hex1.substring(0, 2), 16)
+  const g1 = parseInt(hex1.substring(2, 4), 16)
+  const b1 = parseInt(hex1.substring(4, 6), 16)
+
+  const r2 = parseInt(hex2.substring(0, 2), 16)
+  const g2 = parseInt(hex2.substring(2, 4), 16)
+  const b2 = parseInt(hex2.substring(4, 6), 16)
+
+  const r = Math.round((r1 + r2) / 2)
+  const g = Math.round((g1 + g2) / 2)
+  const b = Math.round((b1 + b2) / 2)
+
+  return `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`
+}
+
+// Helper function to move a color part of the way towards another
+const mixColors = (color1: string, color2: string, amount: number): string => {
+  const hex1 = color1.replace('#', '')
+  const hex2 = color2.replace('#', '')
+
+  const channel = (offset: number) => {
+    const from = parseInt(hex1.substring(offset, offset + 2), 16)
+    const to = parseInt(hex2.substring(offset, offset + 2), 16)
+    return Math.round(from + (to - from) * amount).toString(16).padStart(2, '0')
+  }
+
+  return `#${channel(0)}${channel(2)}${channel(4)}`
+}
+
+// Helper function to mute a color (make it less vibrant)
+const muteColor = (color: string): string => {
+  const hex = color.replace('#', '')
+  const r = parseInt(hex.substring(0, 2), 16)
+  const g = parseInt(hex.substring(2, 4), 16)
+  const b = parseInt(hex.substring(4, 6), 16)
+
+  // Reduce saturation by blending with gray
+  const gray = 128
+  const factor = 0.6 // Muting factor
+
+  const mutedR = Math.round(r * (1 - factor) + gray * factor)
+  const mutedG = Math.round(g * (1 - factor) + gray * factor)
+  const mutedB = Math.round(b * (1 - factor) + gray * factor)
+
+  return `#${mutedR.toString(16).padStart(2, '0')}${mutedG.toString(16).padStart(2, '0')}${mutedB.toString(16).padStart(2, '0')}`
+}
+
+// Helper function to create a lighter, more transparent version of a color for pulse effects
+const createPulseColor = (baseColor: string, brightness: number = 1): string => {
+  // Remove # if present
+  const hex = baseColor.replace('#', '')
+
+  // Parse RGB values
+  const r = parseInt(hex.substr(0, 2), 16)
+  const g = parseInt(hex.substr(2, 2), 16)
+  const b = parseInt(hex.substr(4, 2), 16)
+
+  // Lighten the color by mixing with white
+  const lightR = Math.min(255, Math.round(r + (255 - r) * 0.4 * brightness))
+  const lightG = Math.min(255, Math.round(g + (255 - g) * 0.4 * brightness))
+  const lightB = Math.min(255, Math.round(b + (255 - b) * 0.4 * brightness))
+
+  return `rgb(${lightR}, ${lightG}, ${lightB})`
+}
+
+export type ColorScheme = NonNullable<WorldGenerationConfig['colorScheme']>
+
+export const COLOR_SCHEMES: ColorScheme[] = ['default', 'terrain', 'flow']
+
+// Lowest and highest elevation, or null for worlds without elevation data
+export interface ElevationRange {
+  min: number
+  max: number
+}
+
+// River steps from the origin to each place it reaches, as path tracing walks them
+export interface RiverSteps {
+  steps: Map<string, number>
+  maxSteps: number
+}
+
+// Both are cached per world array; edits replace the arrays they change
+const elevationRangeCache = new WeakMap<WorldVertex[], ElevationRange | null>()
+const riverStepsCache = new WeakMap<RiverEdge[], RiverSteps>()
+
+export const getElevationRange = (vertices: WorldVertex[]): ElevationRange | null => {
+  if (elevationRangeCache.has(vertices)) return elevationRangeCache.get(vertices)!
+
+  let range: ElevationRange | null = null
+  for (const vertex of vertices) {
+    if (vertex.elevation === undefined) continue
+    range = range
+      ? { min: Math.min(range.min, vertex.elevation), max: Math.max(range.max, vertex.elevation) }
+      : { min: vertex.elevation, max: vertex.elevation }
+  }
+
+  elevationRangeCache.set(vertices, range)
+  return range
+}
+
+export const getRiverSteps = (world: WorldGenerationResult): RiverSteps => {
+  const cached = riverStepsCache.get(world.edges)
+  if (cached) return cached
+
+  const neighbours = new Map<string, string[]>()
+  const link = (from: string, to: string) => {
+    const list = neighbours.get(from)
+    if (list) list.push(to)
+    else neighbours.set(from, [to])
+  }
+  for (const edge of world.edges) {
+    link(edge.fromVertexId, edge.toVertexId)
+    link(edge.toVertexId, edge.fromVertexId)
+  }
+
+  // Breadth-first from the origin, like findShortestPathFromOrigin
+  const steps = new Map<string, number>()
+  let maxSteps = 0
+  const origin = world.vertices.find(vertex => vertex.isOrigin)
+  if (origin) {
+    steps.set(origin.id, 0)
+    const queue = [origin.id]
+    for (let head = 0; head < queue.length; head++) {
+      const id = queue[head]
+      const next = steps.get(id)! + 1
+      for (const neighbour of neighbours.get(id) ?? []) {
+        if (steps.has(neighbour)) continue
+        steps.set(neighbour, next)
+        maxSteps = Math.max(maxSteps, next)
+        queue.push(neighbour)
+      }
+    }
+  }
+
+  const riverSteps = { steps, maxSteps }
+  riverStepsCache.set(world.edges, riverSteps)
+  return riverSteps
+}
+
+// Lowlands darker, highlands lighter, around the biome tone at mid height (0..1)
+export const shadeTerrainColor = (color: string, height: number): string =>
+  height < 0.5
+    ? mixColors(color, '#000000', (0.5 - height) * 0.6)
+    : mixColors(color, '#ffffff', (height - 0.5) * 0.6)
+
+// Place fill color under a color scheme, shared with the WebGL renderer
+export const getVertexColor = (world: WorldGenerationResult, vertex: WorldVertex, colorScheme: ColorScheme): string => {
+  const biome = getBiomeFromURN(vertex.ecosystem)
+
+  switch (colorScheme) {
+    case 'terrain': {
+      const color = TERRAIN_COLORS[biome as keyof typeof TERRAIN_COLORS] || '#d79921'
+      const range = getElevationRange(world.vertices)
+      if (!range || vertex.elevation === undefined) return color
+
+      const height = range.max > range.min ? (vertex.elevation - range.min) / (range.max - range.min) : 0.5
+      return shadeTerrainColor(color, height)
+    }
+    case 'flow':
+      return FLOW_VERTEX_COLOR
+    default:
+      return NODE_COLORS[biome as keyof typeof NODE_COLORS] || '#d79921'
+  }
+}
+
+// Edge color under a color scheme, shared with the WebGL renderer
+export const getEdgeColor = (world: WorldGenerationResult, edge: RiverEdge, fromVertex: WorldVertex, toVertex: WorldVertex, colorScheme: ColorScheme): string => {
+  if (colorScheme === 'flow') {
+    // Direction picks the color; distance along the river from the origin fades it
+    const { steps, maxSteps } = getRiverSteps(world)
+    const fromSteps = steps.get(fromVertex.id)
+    const toSteps = steps.get(toVertex.id)
+    if (fromSteps === undefined || toSteps === undefined) return FLOW_UNREACHABLE_COLOR
+
+    const distance = maxSteps > 0 ? Math.min(fromSteps, toSteps) / maxSteps : 0
+    return mixColors(FLOW_DIRECTION_COLORS[edge.flowDirection], FLOW_FAR_COLOR, distance * FLOW_FADE)
+  }
+
+  const fromVertexColor = getVertexColor(world, fromVertex, colorScheme)
+  const toVertexColor = getVertexColor(world, toVertex, colorScheme)
+
+  if (fromVertexColor === toVertexColor) {
+    // Same color - use muted version of that color
+    return muteColor(fromVertexColor)
+  }
+
+  // Different colors - blend the colors and then mute
+  return muteColor(blendColors(fromVertexColor, toVertexColor))
+}
+
+// Update the drawConnections function to use world.edges instead of world.connections
+const drawConnections = (
+  ctx: MapContext,
+  world: WorldGenerationResult,
+  vertexMap: Map<string, WorldVertex>,
+  edges: RiverEdge[],
+  transform: (x: number, y: number) => { x: number; y: number },
+  colorScheme: ColorScheme,
+  tracedPath: string[] = [],
+  pulseStartTime: number = 0,
+) => {
+  // Draw edges (river connections)
+  edges.forEach(edge => {
+    const fromVertex = vertexMap.get(edge.fromVertexId)
+    const toVertex = vertexMap.get(edge.toVertexId)
+
+    if (!fromVertex || !toVertex) return
+
+    const fromPos = transform(fromVertex.x, fromVertex.y)
+    const toPos = transform(toVertex.x, toVertex.y)
+
+    // Check if this edge is part of the traced path
+    const isTracedEdge = tracedPath.length > 0 &&
+      tracedPath.includes(fromVertex.id) &&
+      tracedPath.includes(toVertex.id) &&
+      Math.abs(tracedPath.indexOf(fromVertex.id) - tracedPath.indexOf(toVertex.id)) === 1
+
+    // Calculate edge color based on connected vertices
+    const edgeColor = getEdgeColor(world, edge, fromVertex, toVertex, colorScheme)
+
+    // Draw connection line
+    ctx.strokeStyle = edgeColor
+    ctx.lineWidth = 2
+
+            // Add pulse effect for traced edges
+    if (isTracedEdge && pulseStartTime > 0) {
+      const currentTime = Date.now()
+      const elapsedTime = currentTime - pulseStartTime
+
+      // Calculate propagation delay based on position in path
+      const fromIndex = tracedPath.indexOf(fromVertex.id)
+      const toIndex = tracedPath.indexOf(toVertex.id)
+      const edgeIndex = Math.min(fromIndex, toIndex) // Use the earlier vertex in the path
+      const propagationDelay = edgeIndex * 50 // 50ms delay per step
+      const adjustedElapsedTime = elapsedTime - propagationDelay
+
+
+
+      // Only show pulse if enough time has passed for this edge
+      if (adjustedElapsedTime > 0) {
+        const pulseSpeed = 1000 // milliseconds for one pulse cycle
+        const pulsePhase = Math.min(adjustedElapsedTime / pulseSpeed, 1.0) // Cap at 1.0 to prevent looping
+
+        // Create pulsing effect with a brighter color (no looping)
+        const pulseBrightness = 0.5 + 0.5 * Math.sin(pulsePhase * Math.PI * 2)
+        const pulseAlpha = 0.3 + 0.2 * pulseBrightness // Reduced opacity range
+
+        // Draw pulse background
+        ctx.save()
+        ctx.globalAlpha = pulseAlpha
+        const fromVertexColor = getVertexColor(world, fromVertex, colorScheme)
+        ctx.strokeStyle = createPulseColor(fromVertexColor, pulseBrightness) // Use vertex-specific color
+        ctx.lineWidth = 8 + 4 * pulseBrightness // Consistent pixel size regardless of zoom
+        ctx.beginPath()
+        ctx.moveTo(fromPos.x, fromPos.y)
+        ctx.lineTo(toPos.x, toPos.y)
+        ctx.stroke()
+        ctx.restore()
+      }
+    }
+    ctx.beginPath()
+    ctx.moveTo(fromPos.x, fromPos.y)
+    ctx.lineTo(toPos.x, toPos.y)
+    ctx.stroke()
+
+    // Draw flow direction arrow if enabled
+    if (world.config.showFlowDirection) {
+      const arrowSize = 8
+      const angle = Math.atan2(toPos.y - fromPos.y, toPos.x - fromPos.x)
+      const arrowX = toPos.x - arrowSize * Math.cos(angle)
+      const arrowY = toPos.y - arrowSize * Math.sin(angle)
+
+      ctx.fillStyle = '#458588'
+      ctx.beginPath()
+      ctx.moveTo(toPos.x, toPos.y)
+      ctx.lineTo(arrowX - arrowSize * 0.3 * Math.cos(angle - Math.PI / 6), arrowY - arrowSize * 0.3 * Math.sin(angle - Math.PI / 6))
+      ctx.lineTo(arrowX - arrowSize * 0.3 * Math.cos(angle + Math.PI / 6), arrowY - arrowSize * 0.3 * Math.sin(angle + Math.PI / 6))
+      ctx.closePath()
+      ctx.fill()
+    }
+  })
+}
+
+// Update the drawPlaces function to draw vertices instead
+const drawVertices = (
+  ctx: MapContext,
+  world: WorldGenerationResult,
+  vertices: WorldVertex[],
+  transform: (x: number, y: number) => { x: number; y: number },
+  colorScheme: ColorScheme,
+  tracedPath: string[] = [],
+  pulseStartTime: number = 0,
+) => {
+
+
+  vertices.forEach(vertex => {
+    const pos = transform(vertex.x, vertex.y)
+
+    // Check if this vertex is part of the traced path
+    const isTracedVertex = tracedPath.includes(vertex.id)
+
+            // Draw pulse effect for traced vertices
+    if (isTracedVertex && pulseStartTime > 0) {
+      const currentTime = Date.now()
+      const elapsedTime = currentTime - pulseStartTime
+
+      // Calculate propagation delay based on position in path
+      const vertexIndex = tracedPath.indexOf(vertex.id)
+      const propagationDelay = vertexIndex * 50 // 50ms delay per step
+      const adjustedElapsedTime = elapsedTime - propagationDelay
+
+      // Only show pulse if enough time has passed for this vertex
+      if (adjustedElapsedTime > 0) {
+        const pulseSpeed = 1000 // milliseconds for one pulse cycle
+        const pulsePhase = Math.min(adjustedElapsedTime / pulseSpeed, 1.0) // Cap at 1.0 to prevent looping
+
+        // Create pulsing effect with expanding circle (no looping)
+        const pulseBrightness = 0.5 + 0.5 * Math.sin(pulsePhase * Math.PI * 2)
+        const pulseAlpha = 0.2 + 0.3 * pulseBrightness // Reduced opacity range
+        const baseRadius = (15 + 8 * pulseBrightness) * 0.618     // Base radius range (61.8% of original)
+        const pulseRadius = baseRadius // Keep consistent pixel size regardless of zoom
+
+
+
+        // Draw pulse halo
+        ctx.save()
+        ctx.globalAlpha = pulseAlpha
+        const vertexColor = getVertexColor(world, vertex, colorScheme)
+        ctx.fillStyle = createPulseColor(vertexColor, pulseBrightness) // Use vertex-specific color
+        ctx.beginPath()
+        ctx.arc(pos.x, pos.y, pulseRadius, 0, 2 * Math.PI)
+        ctx.fill()
+        ctx.restore()
+      }
+    }
+
+    // Draw vertex circle
+    const radius = vertex.isOrigin || vertex.spawnIndex ? 8 : 6
+    ctx.fillStyle = getVertexColor(world, vertex, colorScheme)
+    ctx.beginPath()
+    ctx.arc(pos.x, pos.y, radius, 0, 2 * Math.PI)
+    ctx.fill()
+
+    // Draw border
+    ctx.strokeStyle = vertex.isOrigin ? '#fb4934' : vertex.spawnIndex ? '#fe8019' : '#1d2021' // Red for origin, orange for spawns, dark for others
+    ctx.lineWidth = vertex.isOrigin || vertex.spawnIndex ? 3 : 2
+    ctx.stroke()
+
+    // Draw vertex ID for debugging (small text)
+    if (world.config.showFlowDirection) {
+      ctx.fillStyle = '#ebdbb2'
+      ctx.font = '10px monospace'
+      ctx.textAlign = 'center'
+      ctx.textBaseline = 'middle'
+      ctx.fillText(vertex.id, pos.x, pos.y + radius + 12)
+    }
+  })
+}
+
+// Trace the icon for a point of interest type centred on (cx, cy), ready to fill and stroke
+export const tracePoiIcon = (ctx: MapContext, poi: PointOfInterestType, cx: number, cy: number, size: number) => {
+  ctx.beginPath()
+  switch (poi) {
+    case 'summit':
+      // Upward triangle
+      ctx.moveTo(cx, cy - size)
+      ctx.lineTo(cx + size, cy + size)
+      ctx.lineTo(cx - size, cy + size)
+      ctx.closePath()
+      break
+    case 'confluence':
+      // Diamond
+      ctx.moveTo(cx, cy - size)
+      ctx.lineTo(cx + size, cy)
+      ctx.lineTo(cx, cy + size)
+      ctx.lineTo(cx - size, cy)
+      ctx.closePath()
+      break
+    case 'band-crossing':
+      // Square
+      ctx.rect(cx - size * 0.8, cy - size * 0.8, size * 1.6, size * 1.6)
+      break
+    case 'hollow':
+      // Downward triangle
+      ctx.moveTo(cx - size, cy - size)
+      ctx.lineTo(cx + size, cy - size)
+      ctx.lineTo(cx, cy + size)
+      ctx.closePath()
+      break
+  }
+}
+
+// Draw a distinct icon above each point of interest
+const drawPointsOfInterest = (
+  ctx: MapContext,
+  vertices: WorldVertex[],
+  transform: (x: number, y: number) => { x: number; y: number },
+) => {
+  const size = 7
+
+  vertices.forEach(vertex => {
+    if (!vertex.poi) return
+
+    const pos = transform(vertex.x, vertex.y)
+    tracePoiIcon(ctx, vertex.poi, pos.x, pos.y - 16, size) // Float the icon above the vertex circle
+
+    ctx.fillStyle = POI_COLORS[vertex.poi]
+    ctx.fill()
+    ctx.strokeStyle = '#1d2021'
+    ctx.lineWidth = 2
+    ctx.stroke()
+  })
+}
+
+// Ring a vertex, e.g. the place selected for editing
+export const drawVertexHighlight = (ctx: MapContext, world: WorldGenerationResult, vertexId: string, canvasWidth: number, canvasHeight: number, zoom: number, panX: number, panY: number) => {
+  const vertex = getSpatialIndex(world).vertexById.get(vertexId)
+  if (!vertex) return
+
+  const { transform } = createWorldTransform(world, canvasWidth, canvasHeight, zoom, panX, panY)
+  const pos = transform(vertex.x, vertex.y)
+
+  ctx.save()
+  ctx.strokeStyle = '#ebdbb2'
+  ctx.lineWidth = 3
+  ctx.beginPath()
+  ctx.arc(pos.x, pos.y, 13, 0, 2 * Math.PI)
+  ctx.stroke()
+  ctx.restore()
+}
+
+// Overlay the differences between two worlds on the newer one, drawn with drawWorld.
+// Removed places and exits are drawn where they were in the older world.
+export const drawWorldDiff = (ctx: MapContext, world: WorldGenerationResult, diff: WorldDiff, canvasWidth: number, canvasHeight: number, zoom: number, panX: number, panY: number) => {
+  if (!world.vertices.length) return
+
+  const { transform } = createWorldTransform(world, canvasWidth, canvasHeight, zoom, panX, panY)
+
+  const drawExits = (exits: WorldDiff['addedExits'], color: string) => {
+    ctx.strokeStyle = color
+    ctx.lineWidth = 3
+    exits.forEach(exit => {
+      const from = transform(exit.coordinates[0], exit.coordinates[1])
+      const to = transform(exit.toCoordinates[0], exit.toCoordinates[1])
+      ctx.beginPath()
+      ctx.moveTo(from.x, from.y)
+      ctx.lineTo(to.x, to.y)
+      ctx.stroke()
+    })
+  }
+
+  const drawRings = (places: WorldDiff['addedPlaces'], color: string) => {
+    ctx.strokeStyle = color
+    ctx.lineWidth = 3
+    places.forEach(place => {
+      const pos = transform(place.coordinates[0], place.coordinates[1])
+      ctx.beginPath()
+      ctx.arc(pos.x, pos.y, 11, 0, 2 * Math.PI)
+      ctx.stroke()
+    })
+  }
+
+  ctx.save()
+  ctx.globalAlpha = 0.85
+  drawExits(diff.removedExits, DIFF_COLORS.removed)
+  drawExits(diff.addedExits, DIFF_COLORS.added)
+  drawRings(diff.changedEcosystems, DIFF_COLORS.changed)
+  drawRings(diff.addedPlaces, DIFF_COLORS.added)
+
+  // Removed places no longer have a vertex, so mark where they were with a cross
+  ctx.strokeStyle = DIFF_COLORS.removed
+  diff.removedPlaces.forEach(place => {
+    const pos = transform(place.coordinates[0], place.coordinates[1])
+    ctx.beginPath()
+    ctx.moveTo(pos.x - 7, pos.y - 7)
+    ctx.lineTo(pos.x + 7, pos.y + 7)
+    ctx.moveTo(pos.x + 7, pos.y - 7)
+    ctx.lineTo(pos.x - 7, pos.y + 7)
+    ctx.stroke()
+  })
+  ctx.restore()
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { createSpatialIndex, getSpatialIndex, getWorldBounds } from './spatialIndex';
+import type { RiverEdge, WorldGenerationResult, WorldVertex } from '~/worldgen/types';
+
+// The index only reads ids and positions
+function createVertex(id: number, x: number, y: number): WorldVertex {
+  return { id: `v${id}`, x, y } as WorldVertex;
+}
+
+function createEdge(from: WorldVertex, to: WorldVertex): RiverEdge {
+  return { fromVertexId: from.id, toVertexId: to.id } as RiverEdge;
+}
+
+// A scattered but repeatable set of points
+function createVertices(count: number): WorldVertex[] {
+  return Array.from({ length: count }, (_, i) =>
+    createVertex(i, (i * 7919) % 10007, (i * 104729) % 5003));
+}
+
+describe('getWorldBounds', () => {
+  it('should handle more vertices than fit in a call stack', () => {
+    const vertices = createVertices(300_000);
+
+    const bounds = getWorldBounds(vertices);
+
+    expect(bounds.minX).toBe(0);
+    expect(bounds.maxX).toBe(10006);
+    expect(bounds.minY).toBe(0);
+    expect(bounds.maxY).toBe(5002);
+    expect(bounds.width).toBe(10006);
+    expect(bounds.height).toBe(5002);
+  });
+});
+
+describe('createSpatialIndex', () => {
+  const vertices = createVertices(2000);
+  const index = createSpatialIndex(vertices, []);
+
+  it('should find the same vertices in a rectangle as a full scan', () => {
+    const rect = [1200, 800, 3400, 2100] as const;
+    const expected = vertices.filter(v => v.x >= rect[0] && v.x <= rect[2] && v.y >= rect[1] && v.y <= rect[3]);
+
+    const found = index.queryRect(...rect);
+
+    expect(found.map(v => v.id).sort()).toEqual(expected.map(v => v.id).sort());
+    expect(index.queryRect(20000, 20000, 30000, 30000)).toEqual([]);
+  });
+
+  it('should find the nearest vertex within the given distance', () => {
+    const target = vertices[123];
+
+    expect(index.nearest(target.x + 0.5, target.y - 0.5, 5)).toBe(target);
+    expect(index.nearest(-500, -500, 10)).toBeNull();
+  });
+
+  it('should list each edge of the given vertices once', () => {
+    const [a, b, c] = vertices;
+    const ab = createEdge(a, b);
+    const bc = createEdge(b, c);
+    const withEdges = createSpatialIndex(vertices, [ab, bc]);
+
+    expect(withEdges.edgesOf([a, b])).toEqual([ab, bc]);
+    expect(withEdges.edgesOf([vertices[10]])).toEqual([]);
+    expect(withEdges.maxEdgeLength).toBeCloseTo(Math.max(
+      Math.hypot(b.x - a.x, b.y - a.y),
+      Math.hypot(c.x - b.x, c.y - b.y)
+    ), 9);
+  });
+});
+
+describe('getSpatialIndex', () => {
+  it('should reuse the index until the vertices or edges change', () => {
+    const vertices = createVertices(10);
+    const world = { vertices, edges: [] as RiverEdge[] } as WorldGenerationResult;
+
+    const index = getSpatialIndex(world);
+
+    expect(getSpatialIndex({ ...world })).toBe(index);
+    expect(getSpatialIndex({ ...world, edges: [createEdge(vertices[0], vertices[1])] })).not.toBe(index);
+    expect(getSpatialIndex({ ...world, vertices: [...vertices] })).not.toBe(index);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Spatial index over a world's vertices for hover hit-testing and off-screen culling.
+ * A uniform grid of buckets, built once per world and cached, so a lookup only
+ * visits the cells around the query instead of every vertex.
+ */
+
+import type { WorldGenerationResult, WorldVertex, RiverEdge } from '~/worldgen/types'
+
+export interface WorldBounds {
+  minX: number
+  maxX: number
+  minY: number
+  maxY: number
+  width: number
+  height: number
+}
+
+export interface SpatialIndex {
+  bounds: WorldBounds
+  vertexById: Map<string, WorldVertex>
+  maxEdgeLength: number // Longest edge, in meters; edges reach at most this far beyond a query
+  // Vertices inside a world-space rectangle
+  queryRect: (minX: number, minY: number, maxX: number, maxY: number) => WorldVertex[]
+  // Closest vertex within a world-space distance of a point
+  nearest: (x: number, y: number, maxDistance: number) => WorldVertex | null
+  // Edges touching any of the given vertices, each once
+  edgesOf: (vertices: WorldVertex[]) => RiverEdge[]
+}
+
+// Bounds are read on every frame and hit test, so they are cached per vertex array
+const boundsCache = new WeakMap<WorldVertex[], WorldBounds>()
+const indexCache = new WeakMap<WorldVertex[], { edges: RiverEdge[]; index: SpatialIndex }>()
+
+/**
+ * Bounding box of the vertices. A loop rather than Math.min(...xs), which
+ * overflows the call stack on large worlds.
+ */
+export const getWorldBounds = (vertices: WorldVertex[]): WorldBounds => {
+  const cached = boundsCache.get(vertices)
+  if (cached) return cached
+
+  let minX = Infinity
+  let maxX = -Infinity
+  let minY = Infinity
+  let maxY = -Infinity
+  for (const vertex of vertices) {
+    if (vertex.x < minX) minX = vertex.x
+    if (vertex.x > maxX) maxX = vertex.x
+    if (vertex.y < minY) minY = vertex.y
+    if (vertex.y > maxY) maxY = vertex.y
+  }
+
+  const bounds = { minX, maxX, minY, maxY, width: maxX - minX, height: maxY - minY }
+  boundsCache.set(vertices, bounds)
+  return bounds
+}
+
+/**
+ * Build a grid index with around one to three vertices per cell
+ */
+export const createSpatialIndex = (vertices: WorldVertex[], edges: RiverEdge[]): SpatialIndex => {
+  const bounds = getWorldBounds(vertices)
+  const cellSize = Math.max(bounds.width, bounds.height, 1) / Math.max(1, Math.ceil(Math.sqrt(vertices.length)))
+  const columns = Math.floor(bounds.width / cellSize) + 1
+  const rows = Math.floor(bounds.height / cellSize) + 1
+
+  const columnOf = (x: number) => Math.min(columns - 1, Math.max(0, Math.floor((x - bounds.minX) / cellSize)))
+  const rowOf = (y: number) => Math.min(rows - 1, Math.max(0, Math.floor((y - bounds.minY) / cellSize)))
+
+  const cells: WorldVertex[][] = Array.from({ length: columns * rows }, () => [])
+  const vertexById = new Map<string, WorldVertex>()
+  for (const vertex of vertices) {
+    cells[rowOf(vertex.y) * columns + columnOf(vertex.x)].push(vertex)
+    vertexById.set(vertex.id, vertex)
+  }
+
+  const edgesByVertexId = new Map<string, RiverEdge[]>()
+  let maxEdgeLength = 0
+  for (const edge of edges) {
+    for (const id of [edge.fromVertexId, edge.toVertexId]) {
+      const list = edgesByVertexId.get(id)
+      if (list) list.push(edge)
+      else edgesByVertexId.set(id, [edge])
+    }
+
+    const from = vertexById.get(edge.fromVertexId)
+    const to = vertexById.get(edge.toVertexId)
+    if (from && to) {
+      maxEdgeLength = Math.max(maxEdgeLength, Math.hypot(to.x - from.x, to.y - from.y))
+    }
+  }
+
+  const queryRect = (minX: number, minY: number, maxX: number, maxY: number) => {
+    const found: WorldVertex[] = []
+    if (maxX < bounds.minX || minX > bounds.maxX || maxY < bounds.minY || minY > bounds.maxY) return found
+
+    for (let row = rowOf(minY); row <= rowOf(maxY); row++) {
+      for (let column = columnOf(minX); column <= columnOf(maxX); column++) {
+        for (const vertex of cells[row * columns + column]) {
+          if (vertex.x >= minX && vertex.x <= maxX && vertex.y >= minY && vertex.y <= maxY) {
+            found.push(vertex)
+          }
+        }
+      }
+    }
+    return found
+  }
+
+  const nearest = (x: number, y: number, maxDistance: number) => {
+    let best: WorldVertex | null = null
+    let bestDistance = maxDistance
+    for (const vertex of queryRect(x - maxDistance, y - maxDistance, x + maxDistance, y + maxDistance)) {
+      const distance = Math.hypot(vertex.x - x, vertex.y - y)
+      if (distance <= bestDistance) {
+        best = vertex
+        bestDistance = distance
+      }
+    }
+    return best
+  }
+
+  const edgesOf = (selected: WorldVertex[]) => {
+    const found = new Set<RiverEdge>()
+    for (const vertex of selected) {
+      edgesByVertexId.get(vertex.id)?.forEach(edge => found.add(edge))
+    }
+    return Array.from(found)
+  }
+
+  return { bounds, vertexById, maxEdgeLength, queryRect, nearest, edgesOf }
+}
+
+/**
+ * The index for a world, built on first use. Edits replace the vertex and edge
+ * arrays, so a changed world gets a fresh index.
+ */
+export const getSpatialIndex = (world: WorldGenerationResult): SpatialIndex => {
+  const cached = indexCache.get(world.vertices)
+  if (cached && cached.edges === world.edges) return cached.index
+
+  const index = createSpatialIndex(world.vertices, world.edges)
+  indexCache.set(world.vertices, { edges: world.edges, index })
+  return index
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { createPulseIndices, getPulseEndTime, shouldUseWebGL, PULSE_DURATION, PULSE_STEP_DELAY, WEBGL_VERTEX_THRESHOLD } from './webglRenderer';
+import type { RiverEdge, WorldGenerationResult, WorldVertex } from '~/worldgen/types';
+
+// Renderer selection and pulse indices only read ids, counts and the debug flag
+function createWorld(vertexCount: number, edges: Array<[number, number]> = [], showFlowDirection = false): WorldGenerationResult {
+  return {
+    vertices: Array.from({ length: vertexCount }, (_, i) => ({ id: `v${i}` }) as WorldVertex),
+    edges: edges.map(([from, to]) => ({ fromVertexId: `v${from}`, toVertexId: `v${to}` }) as RiverEdge),
+    config: { showFlowDirection }
+  } as WorldGenerationResult;
+}
+
+describe('shouldUseWebGL', () => {
+  it('should pick WebGL from the vertex count threshold', () => {
+    expect(shouldUseWebGL(createWorld(WEBGL_VERTEX_THRESHOLD - 1))).toBe(false);
+    expect(shouldUseWebGL(createWorld(WEBGL_VERTEX_THRESHOLD))).toBe(true);
+  });
+
+  it('should leave worlds showing flow direction to the 2D renderer', () => {
+    expect(shouldUseWebGL(createWorld(WEBGL_VERTEX_THRESHOLD, [], true))).toBe(false);
+  });
+});
+
+describe('createPulseIndices', () => {
+  it('should number places and the edges joining consecutive places along the path', () => {
+    const world = createWorld(5, [[0, 1], [2, 1], [0, 2], [3, 4]]);
+
+    const indices = createPulseIndices(world, ['v0', 'v1', 'v2']);
+
+    expect(Array.from(indices.vertices)).toEqual([0, 1, 2, -1, -1]);
+    // v0-v2 are both on the path but not consecutive
+    expect(Array.from(indices.edges)).toEqual([0, 1, -1, -1]);
+  });
+
+  it('should mark nothing without a traced path', () => {
+    const world = createWorld(3, [[0, 1]]);
+
+    const indices = createPulseIndices(world, []);
+
+    expect(Array.from(indices.vertices)).toEqual([-1, -1, -1]);
+    expect(Array.from(indices.edges)).toEqual([-1]);
+  });
+});
+
+describe('getPulseEndTime', () => {
+  it('should end once the last place on the path has pulsed', () => {
+    expect(getPulseEndTime(['a', 'b', 'c'], 1000)).toBe(1000 + 3 * PULSE_STEP_DELAY + PULSE_DURATION);
+  });
+});
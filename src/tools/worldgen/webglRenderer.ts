@@ -0,0 +1,460 @@
+/**
+ * WebGL renderer for the graph layer of large worlds: places as instanced
+ * circles and connections as instanced line quads. Per-world data goes into GPU
+ * buffers once; a traced path only rewrites one float per instance, and the
+ * pulse animation is driven by an elapsed-time uniform, so animating costs a
+ * single small draw call per pass instead of redrawing every path on the CPU.
+ *
+ * Only the graph is drawn here. Bands, hillshade, point of interest icons and
+ * overlays stay with the 2D drawing in rendering.ts, on canvases behind and
+ * above this one.
+ */
+
+import type { WorldGenerationResult, WorldVertex } from '~/worldgen/types'
+import { createWorldTransform, getEdgeColor, getVertexColor, type ColorScheme } from './rendering'
+
+// Worlds with at least this many places are drawn with WebGL when available
+export const WEBGL_VERTEX_THRESHOLD = 5000
+
+// Flow arrows and vertex id labels are debugging aids only the 2D renderer draws
+export const shouldUseWebGL = (world: WorldGenerationResult): boolean =>
+  world.vertices.length >= WEBGL_VERTEX_THRESHOLD && !world.config.showFlowDirection
+
+export interface WebGLWorldRenderer {
+  // Draw one frame; call again each animation frame while a path is pulsing
+  draw: (world: WorldGenerationResult, canvasWidth: number, canvasHeight: number, zoom: number, panX: number, panY: number, tracedPath?: string[], pulseStartTime?: number, colorScheme?: ColorScheme) => void
+  dispose: () => void
+}
+
+// Pulse timing, matching the 2D renderer
+export const PULSE_STEP_DELAY = 50 // ms between consecutive places on the path
+export const PULSE_DURATION = 1000 // ms for one place's pulse
+
+// When the last place on a path has finished pulsing and frames stop changing
+export const getPulseEndTime = (tracedPath: string[], pulseStartTime: number): number =>
+  pulseStartTime + tracedPath.length * PULSE_STEP_DELAY + PULSE_DURATION
+
+/**
+ * Position of each vertex and edge along the traced path, -1 where not on it.
+ * An edge is on the path when it joins consecutive places, and takes the
+ * position of the earlier one. Arrays follow world.vertices and world.edges.
+ */
+export const createPulseIndices = (world: WorldGenerationResult, tracedPath: string[]) => {
+  const indexById = new Map(tracedPath.map((id, index) => [id, index]))
+
+  const vertices = new Float32Array(world.vertices.length)
+  world.vertices.forEach((vertex, i) => {
+    vertices[i] = indexById.get(vertex.id) ?? -1
+  })
+
+  const edges = new Float32Array(world.edges.length)
+  world.edges.forEach((edge, i) => {
+    const from = indexById.get(edge.fromVertexId)
+    const to = indexById.get(edge.toVertexId)
+    edges[i] = from !== undefined && to !== undefined && Math.abs(from - to) === 1 ? Math.min(from, to) : -1
+  })
+
+  return { vertices, edges }
+}
+
+const SHARED_GLSL = `#version 300 es
+precision highp float;
+
+uniform vec2 u_scale;      // world meters to canvas pixels
+uniform vec2 u_offset;     // canvas position of the world origin
+uniform vec2 u_resolution; // canvas size in pixels
+uniform float u_elapsed;   // ms since the pulse started, negative when nothing pulses
+uniform bool u_halo;       // pulse halo pass rather than the main pass
+
+vec4 toClip(vec2 canvas) {
+  vec2 clip = canvas / u_resolution * 2.0 - 1.0;
+  return vec4(clip.x, -clip.y, 0.0, 1.0);
+}
+
+// 0..1 pulse brightness for a position along the path, negative when not pulsing
+float pulseBrightness(float pathIndex) {
+  if (pathIndex < 0.0 || u_elapsed < 0.0) return -1.0;
+  float elapsed = u_elapsed - pathIndex * ${PULSE_STEP_DELAY.toFixed(1)};
+  if (elapsed <= 0.0) return -1.0;
+  float phase = min(elapsed / ${PULSE_DURATION.toFixed(1)}, 1.0);
+  return 0.5 + 0.5 * sin(phase * 6.28318530718);
+}
+
+// Lighten towards white, as createPulseColor does
+vec3 pulseColor(vec3 color, float brightness) {
+  return color + (1.0 - color) * 0.4 * brightness;
+}
+
+const vec4 CULLED = vec4(2.0, 2.0, 2.0, 1.0);
+`
+
+const VERTEX_SHADER = `${SHARED_GLSL}
+in vec2 a_corner;
+in vec2 a_position;
+in vec3 a_fill;
+in vec3 a_border;
+in float a_radius;
+in float a_borderWidth;
+in float a_pathIndex;
+
+out vec2 v_offset;
+out vec3 v_fill;
+out vec3 v_border;
+out float v_radius;
+out float v_borderWidth;
+out float v_alpha;
+
+void main() {
+  float brightness = pulseBrightness(a_pathIndex);
+  float outer;
+
+  if (u_halo) {
+    if (brightness < 0.0) { gl_Position = CULLED; return; }
+    outer = (15.0 + 8.0 * brightness) * 0.618;
+    v_fill = pulseColor(a_fill, brightness);
+    v_border = v_fill;
+    v_radius = outer;
+    v_borderWidth = 0.0;
+    v_alpha = 0.2 + 0.3 * brightness;
+  } else {
+    outer = a_radius + a_borderWidth * 0.5;
+    v_fill = a_fill;
+    v_border = a_border;
+    v_radius = a_radius;
+    v_borderWidth = a_borderWidth;
+    v_alpha = 1.0;
+  }
+
+  // One pixel of slack for antialiasing
+  v_offset = a_corner * (outer + 1.0);
+  gl_Position = toClip(a_position * u_scale + u_offset + v_offset);
+}
+`
+
+const VERTEX_FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+
+in vec2 v_offset;
+in vec3 v_fill;
+in vec3 v_border;
+in float v_radius;
+in float v_borderWidth;
+in float v_alpha;
+
+out vec4 outColor;
+
+void main() {
+  float radial = length(v_offset);
+  float outer = v_radius + v_borderWidth * 0.5;
+  float coverage = 1.0 - smoothstep(outer - 0.5, outer + 0.5, radial);
+  if (coverage <= 0.0) discard;
+
+  // The border straddles the radius, like a stroked arc
+  float inner = v_radius - v_borderWidth * 0.5;
+  vec3 color = mix(v_fill, v_border, smoothstep(inner - 0.5, inner + 0.5, radial) * step(0.001, v_borderWidth));
+
+  float alpha = coverage * v_alpha;
+  outColor = vec4(color * alpha, alpha);
+}
+`
+
+const EDGE_SHADER = `${SHARED_GLSL}
+in vec2 a_corner; // x: 0 at the start, 1 at the end; y: -1 or 1 across the line
+in vec2 a_from;
+in vec2 a_to;
+in vec3 a_color;
+in vec3 a_haloColor;
+in float a_pathIndex;
+
+out vec3 v_color;
+out float v_alpha;
+
+void main() {
+  float brightness = pulseBrightness(a_pathIndex);
+  float width;
+
+  if (u_halo) {
+    if (brightness < 0.0) { gl_Position = CULLED; return; }
+    width = 8.0 + 4.0 * brightness;
+    v_color = pulseColor(a_haloColor, brightness);
+    v_alpha = 0.3 + 0.2 * brightness;
+  } else {
+    width = 2.0;
+    v_color = a_color;
+    v_alpha = 1.0;
+  }
+
+  vec2 from = a_from * u_scale + u_offset;
+  vec2 to = a_to * u_scale + u_offset;
+  vec2 along = to - from;
+  vec2 direction = length(along) > 0.0 ? normalize(along) : vec2(1.0, 0.0);
+  vec2 normal = vec2(-direction.y, direction.x);
+
+  gl_Position = toClip(mix(from, to, a_corner.x) + normal * a_corner.y * width * 0.5);
+}
+`
+
+const EDGE_FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+
+in vec3 v_color;
+in float v_alpha;
+
+out vec4 outColor;
+
+void main() {
+  outColor = vec4(v_color * v_alpha, v_alpha);
+}
+`
+
+// Unit quads drawn as triangle strips, one per instance
+const CIRCLE_CORNERS = new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1])
+const LINE_CORNERS = new Float32Array([0, -1, 1, -1, 0, 1, 1, 1])
+
+// Static per-instance attribute layouts, in floats
+const VERTEX_ATTRIBUTES = [['a_position', 2], ['a_fill', 3], ['a_border', 3], ['a_radius', 1], ['a_borderWidth', 1]] as const
+const EDGE_ATTRIBUTES = [['a_from', 2], ['a_to', 2], ['a_color', 3], ['a_haloColor', 3]] as const
+const VERTEX_STRIDE = 10
+const EDGE_STRIDE = 10
+
+const hexToRGB = (hex: string): [number, number, number] => {
+  const value = hex.replace('#', '')
+  return [
+    parseInt(value.substring(0, 2), 16) / 255,
+    parseInt(value.substring(2, 4), 16) / 255,
+    parseInt(value.substring(4, 6), 16) / 255
+  ]
+}
+
+const compileProgram = (gl: WebGL2RenderingContext, vertexSource: string, fragmentSource: string): WebGLProgram => {
+  const compile = (type: number, source: string) => {
+    const shader = gl.createShader(type)
+    if (!shader) throw new Error('Failed to create WebGL shader')
+    gl.shaderSource(shader, source)
+    gl.compileShader(shader)
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      const log = gl.getShaderInfoLog(shader)
+      gl.deleteShader(shader)
+      throw new Error(`Failed to compile WebGL shader: ${log}`)
+    }
+    return shader
+  }
+
+  const program = gl.createProgram()
+  if (!program) throw new Error('Failed to create WebGL program')
+  const vertexShader = compile(gl.VERTEX_SHADER, vertexSource)
+  const fragmentShader = compile(gl.FRAGMENT_SHADER, fragmentSource)
+  gl.attachShader(program, vertexShader)
+  gl.attachShader(program, fragmentShader)
+  gl.linkProgram(program)
+  gl.deleteShader(vertexShader)
+  gl.deleteShader(fragmentShader)
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(`Failed to link WebGL program: ${gl.getProgramInfoLog(program)}`)
+  }
+  return program
+}
+
+interface InstancedLayer {
+  program: WebGLProgram
+  vao: WebGLVertexArrayObject
+  corners: WebGLBuffer
+  instances: WebGLBuffer
+  pathIndices: WebGLBuffer
+  count: number
+}
+
+// A quad program with a static per-instance buffer and a path index buffer
+const createInstancedLayer = (
+  gl: WebGL2RenderingContext,
+  program: WebGLProgram,
+  corners: Float32Array,
+  attributes: ReadonlyArray<readonly [string, number]>,
+  stride: number,
+): InstancedLayer => {
+  const vao = gl.createVertexArray()
+  const cornerBuffer = gl.createBuffer()
+  const instances = gl.createBuffer()
+  const pathIndices = gl.createBuffer()
+  if (!vao || !cornerBuffer || !instances || !pathIndices) throw new Error('Failed to create WebGL buffers')
+
+  gl.bindVertexArray(vao)
+
+  gl.bindBuffer(gl.ARRAY_BUFFER, cornerBuffer)
+  gl.bufferData(gl.ARRAY_BUFFER, corners, gl.STATIC_DRAW)
+  const corner = gl.getAttribLocation(program, 'a_corner')
+  gl.enableVertexAttribArray(corner)
+  gl.vertexAttribPointer(corner, 2, gl.FLOAT, false, 0, 0)
+
+  gl.bindBuffer(gl.ARRAY_BUFFER, instances)
+  let offset = 0
+  for (const [name, size] of attributes) {
+    const location = gl.getAttribLocation(program, name)
+    gl.enableVertexAttribArray(location)
+    gl.vertexAttribPointer(location, size, gl.FLOAT, false, stride * 4, offset * 4)
+    gl.vertexAttribDivisor(location, 1)
+    offset += size
+  }
+
+  gl.bindBuffer(gl.ARRAY_BUFFER, pathIndices)
+  const pathIndex = gl.getAttribLocation(program, 'a_pathIndex')
+  gl.enableVertexAttribArray(pathIndex)
+  gl.vertexAttribPointer(pathIndex, 1, gl.FLOAT, false, 0, 0)
+  gl.vertexAttribDivisor(pathIndex, 1)
+
+  gl.bindVertexArray(null)
+  return { program, vao, corners: cornerBuffer, instances, pathIndices, count: 0 }
+}
+
+const createVertexInstances = (world: WorldGenerationResult, colorScheme: ColorScheme) => {
+  const data = new Float32Array(world.vertices.length * VERTEX_STRIDE)
+  world.vertices.forEach((vertex, i) => {
+    const isMarked = vertex.isOrigin || !!vertex.spawnIndex
+    // Red for origin, orange for spawns, dark for others
+    const border = vertex.isOrigin ? '#fb4934' : vertex.spawnIndex ? '#fe8019' : '#1d2021'
+    data.set([
+      vertex.x, vertex.y,
+      ...hexToRGB(getVertexColor(world, vertex, colorScheme)),
+      ...hexToRGB(border),
+      isMarked ? 8 : 6,
+      isMarked ? 3 : 2
+    ], i * VERTEX_STRIDE)
+  })
+  return data
+}
+
+const createEdgeInstances = (world: WorldGenerationResult, vertexById: Map<string, WorldVertex>, colorScheme: ColorScheme) => {
+  const data = new Float32Array(world.edges.length * EDGE_STRIDE)
+  world.edges.forEach((edge, i) => {
+    const from = vertexById.get(edge.fromVertexId)
+    const to = vertexById.get(edge.toVertexId)
+    // Edges to missing places collapse to nothing
+    if (!from || !to) return
+
+    data.set([
+      from.x, from.y,
+      to.x, to.y,
+      ...hexToRGB(getEdgeColor(world, edge, from, to, colorScheme)),
+      ...hexToRGB(getVertexColor(world, from, colorScheme))
+    ], i * EDGE_STRIDE)
+  })
+  return data
+}
+
+/**
+ * Create a renderer drawing into the canvas, or null when WebGL 2 isn't
+ * available so the caller can fall back to 2D drawing
+ */
+export const createWebGLRenderer = (canvas: HTMLCanvasElement): WebGLWorldRenderer | null => {
+  const gl = canvas.getContext('webgl2', { antialias: true, premultipliedAlpha: true })
+  if (!gl) return null
+
+  let edgeLayer: InstancedLayer
+  let vertexLayer: InstancedLayer
+  try {
+    edgeLayer = createInstancedLayer(gl, compileProgram(gl, EDGE_SHADER, EDGE_FRAGMENT_SHADER), LINE_CORNERS, EDGE_ATTRIBUTES, EDGE_STRIDE)
+    vertexLayer = createInstancedLayer(gl, compileProgram(gl, VERTEX_SHADER, VERTEX_FRAGMENT_SHADER), CIRCLE_CORNERS, VERTEX_ATTRIBUTES, VERTEX_STRIDE)
+  } catch (error) {
+    console.error('WebGL renderer unavailable:', error)
+    return null
+  }
+
+  // Buffers are rebuilt only when the world, its colors or the traced path change
+  let uploadedWorld: WorldGenerationResult | null = null
+  let uploadedColorScheme: ColorScheme | null = null
+  let uploadedPath: string[] | null = null
+
+  const uploadWorld = (world: WorldGenerationResult, colorScheme: ColorScheme) => {
+    const vertexById = new Map(world.vertices.map(vertex => [vertex.id, vertex]))
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, vertexLayer.instances)
+    gl.bufferData(gl.ARRAY_BUFFER, createVertexInstances(world, colorScheme), gl.STATIC_DRAW)
+    vertexLayer.count = world.vertices.length
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, edgeLayer.instances)
+    gl.bufferData(gl.ARRAY_BUFFER, createEdgeInstances(world, vertexById, colorScheme), gl.STATIC_DRAW)
+    edgeLayer.count = world.edges.length
+
+    uploadedWorld = world
+    uploadedColorScheme = colorScheme
+    uploadedPath = null
+  }
+
+  const uploadPath = (world: WorldGenerationResult, tracedPath: string[]) => {
+    const indices = createPulseIndices(world, tracedPath)
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, vertexLayer.pathIndices)
+    gl.bufferData(gl.ARRAY_BUFFER, indices.vertices, gl.DYNAMIC_DRAW)
+    gl.bindBuffer(gl.ARRAY_BUFFER, edgeLayer.pathIndices)
+    gl.bufferData(gl.ARRAY_BUFFER, indices.edges, gl.DYNAMIC_DRAW)
+
+    uploadedPath = tracedPath
+  }
+
+  const drawLayer = (layer: InstancedLayer, uniforms: { scale: number; offsetX: number; offsetY: number; width: number; height: number; elapsed: number }) => {
+    if (layer.count === 0) return
+
+    gl.useProgram(layer.program)
+    gl.uniform2f(gl.getUniformLocation(layer.program, 'u_scale'), uniforms.scale, uniforms.scale)
+    gl.uniform2f(gl.getUniformLocation(layer.program, 'u_offset'), uniforms.offsetX, uniforms.offsetY)
+    gl.uniform2f(gl.getUniformLocation(layer.program, 'u_resolution'), uniforms.width, uniforms.height)
+    gl.uniform1f(gl.getUniformLocation(layer.program, 'u_elapsed'), uniforms.elapsed)
+
+    const halo = gl.getUniformLocation(layer.program, 'u_halo')
+    gl.bindVertexArray(layer.vao)
+
+    // Pulse halos first, so they sit behind what they surround
+    if (uniforms.elapsed >= 0) {
+      gl.uniform1i(halo, 1)
+      gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, layer.count)
+    }
+    gl.uniform1i(halo, 0)
+    gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, layer.count)
+
+    gl.bindVertexArray(null)
+  }
+
+  const draw: WebGLWorldRenderer['draw'] = (world, canvasWidth, canvasHeight, zoom, panX, panY, tracedPath = [], pulseStartTime = 0, colorScheme = world.config.colorScheme ?? 'default') => {
+    if (world !== uploadedWorld || colorScheme !== uploadedColorScheme) uploadWorld(world, colorScheme)
+    if (tracedPath !== uploadedPath) uploadPath(world, tracedPath)
+
+    gl.viewport(0, 0, canvasWidth, canvasHeight)
+    gl.clearColor(0, 0, 0, 0)
+    gl.clear(gl.COLOR_BUFFER_BIT)
+    if (!world.vertices.length) return
+
+    gl.enable(gl.BLEND)
+    gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA)
+
+    // The same mapping the 2D renderer uses, as a scale and an offset
+    const { transform, scale } = createWorldTransform(world, canvasWidth, canvasHeight, zoom, panX, panY)
+    const origin = transform(0, 0)
+    const uniforms = {
+      scale,
+      offsetX: origin.x,
+      offsetY: origin.y,
+      width: canvasWidth,
+      height: canvasHeight,
+      elapsed: tracedPath.length > 0 && pulseStartTime > 0 ? Date.now() - pulseStartTime : -1
+    }
+
+    // Connections behind places, as in drawWorld
+    drawLayer(edgeLayer, uniforms)
+    drawLayer(vertexLayer, uniforms)
+  }
+
+  const dispose = () => {
+    for (const layer of [edgeLayer, vertexLayer]) {
+      gl.deleteBuffer(layer.corners)
+      gl.deleteBuffer(layer.instances)
+      gl.deleteBuffer(layer.pathIndices)
+      gl.deleteVertexArray(layer.vao)
+      gl.deleteProgram(layer.program)
+    }
+    uploadedWorld = null
+    uploadedColorScheme = null
+    uploadedPath = null
+  }
+
+  return { draw, dispose }
+}
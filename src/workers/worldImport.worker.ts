@@ -0,0 +1,78 @@
+// Web Worker for World Import - streams a JSONL file line by line, or decodes a binary world
+import { createWorldImporter, createLineDecoder } from '../worldgen/import'
+import { importWorldFromBinary } from '../worldgen/binary'
+import type { WorldImportResult } from '../worldgen/index'
+
+export interface WorldImportMessage {
+  type: 'IMPORT_WORLD'
+  payload: File
+}
+
+export interface WorldImportProgress {
+  bytesRead: number
+  totalBytes: number
+  placesParsed: number
+}
+
+export interface WorldImportResponse {
+  type: 'IMPORT_PROGRESS' | 'WORLD_IMPORTED' | 'IMPORT_ERROR'
+  payload: WorldImportProgress | WorldImportResult | string
+}
+
+const postResponse = (response: WorldImportResponse) => self.postMessage(response)
+
+async function importFile(file: File): Promise<WorldImportResult> {
+  // Binary worlds are compact enough to decode in one pass
+  if (file.name.endsWith('.fwb')) {
+    const result = importWorldFromBinary(new Uint8Array(await file.arrayBuffer()))
+    postResponse({
+      type: 'IMPORT_PROGRESS',
+      payload: { bytesRead: file.size, totalBytes: file.size, placesParsed: result.world?.vertices.length ?? 0 }
+    })
+    return result
+  }
+
+  const importer = createWorldImporter()
+  const decoder = createLineDecoder(importer.pushLine)
+  const reader = file.stream().getReader()
+  let bytesRead = 0
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    decoder.push(value)
+    bytesRead += value.byteLength
+
+    postResponse({
+      type: 'IMPORT_PROGRESS',
+      payload: { bytesRead, totalBytes: file.size, placesParsed: importer.placesParsed() }
+    })
+  }
+
+  decoder.end()
+  return importer.finish()
+}
+
+// Listen for messages from the main thread
+self.addEventListener('message', async (event: MessageEvent<WorldImportMessage>) => {
+  const { type, payload } = event.data
+
+  if (type === 'IMPORT_WORLD') {
+    try {
+      console.log(`Worker: Streaming import of ${payload.name} (${payload.size} bytes)`)
+      // The result carries the validation report; its world is null when the file has errors
+      const result = await importFile(payload)
+      postResponse({ type: 'WORLD_IMPORTED', payload: result })
+    } catch (error) {
+      console.error('Worker: World import failed:', error)
+      postResponse({
+        type: 'IMPORT_ERROR',
+        payload: error instanceof Error ? error.message : 'Unknown error occurred'
+      })
+    }
+  }
+})
+
+// Export empty object to make this a module
+export {}
@@ -0,0 +1,433 @@
+/**
+ * Binary World Format
+ * Compact encoding of the data a JSONL export carries, for storing many seed
+ * variants cheaply: a string table for URNs, grid-packed coordinates, and exits
+ * packed with their direction into one varint each.
+ *
+ * Layout (integers are unsigned LEB128 varints unless noted):
+ *   "FWB" magic, format version byte
+ *   front matter JSON, length-prefixed UTF-8 (the same object as the JSONL front matter)
+ *   string table: count, then length-prefixed UTF-8 strings
+ *   coordinate grid: origin and spacing as three float64 LE
+ *   place count, then per place:
+ *     URN index, ecosystem index, flags byte
+ *     grid column and row, or two numbers when the place is off the grid
+ *     exit count, then per exit in export order: target place index * 8 + direction index
+ *     name index, elevation, weather (temperature, pressure, humidity), poi and resource nodes, when flagged
+ *
+ * Only names set by hand are stored: the rest, like descriptions, are derived from the seed on import.
+ *
+ * Exits are packed one varint each rather than as a direction bitmask with target
+ * indices: a bitmask fixes their order, while the import rebuilds connections in
+ * exit order and generated descriptions depend on that order.
+ */
+
+import type { WorldGenerationResult, PointOfInterestType, WorldImportResult } from './types';
+import {
+  createExportMetadata,
+  convertVertexExitsToPlaceExits,
+  getExportURN,
+  resolveExportTimestamp,
+  stringifyExportRecord
+} from './export';
+import type { WorldExportOptions } from './export';
+import { createWorldImporter } from './import';
+import { computeSmoothedWeather } from './weather';
+import { seedResourceNodes } from './resources';
+import { createRandomStreams } from './random';
+
+const MAGIC = [0x46, 0x57, 0x42]; // "FWB"
+const FORMAT_VERSION = 1;
+
+// Direction indices of packed exits
+const EXIT_DIRECTIONS = ['north', 'northeast', 'east', 'southeast', 'south', 'southwest', 'west', 'northwest'];
+
+const POI_TYPES: PointOfInterestType[] = ['confluence', 'band-crossing', 'hollow', 'summit'];
+
+// Per-place flags
+const FLAG_OFF_GRID = 1;
+const FLAG_ELEVATION = 2;
+const FLAG_WEATHER = 4;
+const FLAG_POI = 8;
+const FLAG_RESOURCES = 16;
+const FLAG_NAME = 32;
+
+// Number encodings: small integers and tenths (weather is rounded to 0.1) pack into varints
+const NUMBER_INTEGER = 0;
+const NUMBER_TENTHS = 1;
+const NUMBER_FLOAT = 2;
+
+const MAX_PACKED_MAGNITUDE = 2 ** 51; // Largest magnitude whose zigzag encoding stays a safe integer
+
+/**
+ * Growable byte buffer with the encodings used by the format
+ */
+function createByteWriter() {
+  let bytes = new Uint8Array(1024);
+  let length = 0;
+  const scratch = new DataView(new ArrayBuffer(8));
+
+  const ensure = (count: number) => {
+    if (length + count <= bytes.length) return;
+    const grown = new Uint8Array(Math.max(bytes.length * 2, length + count));
+    grown.set(bytes.subarray(0, length));
+    bytes = grown;
+  };
+
+  const writeByte = (value: number) => {
+    ensure(1);
+    bytes[length++] = value;
+  };
+
+  // Arithmetic rather than bitwise so values above 2^31 survive
+  const writeVarint = (value: number) => {
+    let remaining = value;
+    while (remaining >= 0x80) {
+      writeByte((remaining % 0x80) | 0x80);
+      remaining = Math.floor(remaining / 0x80);
+    }
+    writeByte(remaining);
+  };
+
+  const writeSignedVarint = (value: number) => writeVarint(value >= 0 ? value * 2 : -value * 2 - 1);
+
+  const writeFloat64 = (value: number) => {
+    scratch.setFloat64(0, value, true);
+    ensure(8);
+    for (let i = 0; i < 8; i++) bytes[length++] = scratch.getUint8(i);
+  };
+
+  const writeBytes = (data: Uint8Array) => {
+    writeVarint(data.length);
+    ensure(data.length);
+    bytes.set(data, length);
+    length += data.length;
+  };
+
+  // Exact for any double: integers and tenths are packed when that loses nothing
+  const writeNumber = (value: number) => {
+    const tenths = Math.round(value * 10);
+    if (Number.isInteger(value) && Math.abs(value) < MAX_PACKED_MAGNITUDE) {
+      writeByte(NUMBER_INTEGER);
+      writeSignedVarint(value);
+    } else if (Math.abs(tenths) < MAX_PACKED_MAGNITUDE && tenths / 10 === value) {
+      writeByte(NUMBER_TENTHS);
+      writeSignedVarint(tenths);
+    } else {
+      writeByte(NUMBER_FLOAT);
+      writeFloat64(value);
+    }
+  };
+
+  return {
+    writeByte,
+    writeVarint,
+    writeFloat64,
+    writeNumber,
+    writeString: (value: string) => writeBytes(new TextEncoder().encode(value)),
+    toBytes: () => bytes.slice(0, length)
+  };
+}
+
+/**
+ * Cursor over encoded bytes; running past the end is reported as a truncated file
+ */
+function createByteReader(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  let offset = 0;
+
+  const take = (count: number) => {
+    if (offset + count > bytes.length) {
+      throw new Error('Invalid binary world: unexpected end of data');
+    }
+    const start = offset;
+    offset += count;
+    return start;
+  };
+
+  const readByte = () => bytes[take(1)];
+
+  const readVarint = () => {
+    let value = 0;
+    let multiplier = 1;
+    for (;;) {
+      const byte = readByte();
+      value += (byte & 0x7f) * multiplier;
+      if (byte < 0x80) return value;
+      multiplier *= 0x80;
+      if (multiplier > 2 ** 56) {
+        throw new Error('Invalid binary world: varint too long');
+      }
+    }
+  };
+
+  const readSignedVarint = () => {
+    const value = readVarint();
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+  };
+
+  const readFloat64 = () => view.getFloat64(take(8), true);
+
+  const readNumber = () => {
+    const encoding = readByte();
+    switch (encoding) {
+      case NUMBER_INTEGER: return readSignedVarint();
+      case NUMBER_TENTHS: return readSignedVarint() / 10;
+      case NUMBER_FLOAT: return readFloat64();
+      default: throw new Error(`Invalid binary world: unknown number encoding ${encoding}`);
+    }
+  };
+
+  const readString = () => {
+    const length = readVarint();
+    const start = take(length);
+    return decoder.decode(bytes.subarray(start, start + length));
+  };
+
+  return { readByte, readVarint, readFloat64, readNumber, readString, isAtEnd: () => offset === bytes.length };
+}
+
+/**
+ * Encode a world in the binary format. Carries the same data as exportWorldToJSONL.
+ */
+export function exportWorldToBinary(world: WorldGenerationResult, options: WorldExportOptions = {}): Uint8Array {
+  // Same per-place data the JSONL exporter writes
+  const smoothedWeather = world.smoothedWeather ?? computeSmoothedWeather(world.vertices);
+  const resourceNodes = world.resourceNodes ?? seedResourceNodes(world.vertices, createRandomStreams(world.config.seed ?? 0).seedOf('resources'));
+  const urns = world.vertices.map(getExportURN);
+  const indexByUrn = new Map<string, number>(urns.map((urn, index) => [urn, index]));
+  if (indexByUrn.size !== urns.length) {
+    throw new Error('Duplicate places found - each place must have a unique URN');
+  }
+
+  const strings: string[] = [];
+  const stringIndex = new Map<string, number>();
+  const intern = (value: string) => {
+    let index = stringIndex.get(value);
+    if (index === undefined) {
+      index = strings.length;
+      strings.push(value);
+      stringIndex.set(value, index);
+    }
+    return index;
+  };
+
+  // Places are encoded first so the string table is complete before it is written
+  const { placeMargin, placeSpacing } = world.spatialMetrics;
+  const places = createByteWriter();
+  places.writeVarint(world.vertices.length);
+
+  world.vertices.forEach((vertex, index) => {
+    const column = (vertex.x - placeMargin) / placeSpacing;
+    const row = (vertex.y - placeMargin) / placeSpacing;
+    const onGrid = [column, row].every(value => Number.isInteger(value) && value >= 0) &&
+      placeMargin + column * placeSpacing === vertex.x &&
+      placeMargin + row * placeSpacing === vertex.y;
+
+    const weather = smoothedWeather.get(vertex.id);
+    const nodes = resourceNodes.get(vertex.id) ?? {};
+    const hasResources = Object.keys(nodes).length > 0;
+
+    places.writeVarint(intern(urns[index]));
+    places.writeVarint(intern(vertex.ecosystem));
+    places.writeByte(
+      (onGrid ? 0 : FLAG_OFF_GRID) |
+      (vertex.elevation !== undefined ? FLAG_ELEVATION : 0) |
+      (weather ? FLAG_WEATHER : 0) |
+      (vertex.poi ? FLAG_POI : 0) |
+      (hasResources ? FLAG_RESOURCES : 0) |
+      (vertex.name !== undefined ? FLAG_NAME : 0)
+    );
+
+    if (onGrid) {
+      places.writeVarint(column);
+      places.writeVarint(row);
+    } else {
+      places.writeNumber(vertex.x);
+      places.writeNumber(vertex.y);
+    }
+
+    // Exits keep their export order: the import rebuilds connections in that order, and names depend on it
+    const exits = Object.entries(convertVertexExitsToPlaceExits(vertex, world)) as Array<[string, { to: string }]>;
+    const unsupported = exits.find(([key]) => !EXIT_DIRECTIONS.includes(key));
+    if (unsupported) {
+      throw new Error(`Cannot encode exit direction "${unsupported[0]}" of ${urns[index]}`);
+    }
+    places.writeVarint(exits.length);
+    exits.forEach(([direction, exit]) => {
+      places.writeVarint(indexByUrn.get(exit.to)! * EXIT_DIRECTIONS.length + EXIT_DIRECTIONS.indexOf(direction));
+    });
+
+    if (vertex.name !== undefined) {
+      places.writeVarint(intern(vertex.name));
+    }
+    if (vertex.elevation !== undefined) {
+      places.writeNumber(vertex.elevation);
+    }
+    if (weather) {
+      places.writeNumber(weather.temperature);
+      places.writeNumber(weather.pressure);
+      places.writeNumber(weather.humidity);
+    }
+    if (vertex.poi) {
+      places.writeByte(POI_TYPES.indexOf(vertex.poi));
+    }
+    if (hasResources) {
+      const entries = Object.entries(nodes);
+      places.writeVarint(entries.length);
+      entries.forEach(([resource, node]) => {
+        places.writeVarint(intern(resource));
+        places.writeNumber(node.quantity);
+      });
+    }
+  });
+
+  const output = createByteWriter();
+  MAGIC.forEach(output.writeByte);
+  output.writeByte(FORMAT_VERSION);
+  output.writeString(stringifyExportRecord(createExportMetadata(world, resolveExportTimestamp(world, options)), options));
+  output.writeVarint(strings.length);
+  strings.forEach(output.writeString);
+  output.writeFloat64(placeMargin);
+  output.writeFloat64(placeMargin);
+  output.writeFloat64(placeSpacing);
+
+  const header = output.toBytes();
+  const body = places.toBytes();
+  const result = new Uint8Array(header.length + body.length);
+  result.set(header);
+  result.set(body, header.length);
+  return result;
+}
+
+/**
+ * Decode a binary world into the records its JSONL form would contain:
+ * front matter, then one Place per line (with hand-set names only, and no descriptions)
+ */
+export function decodeWorldBinary(bytes: Uint8Array): { frontMatter: unknown; places: Array<Record<string, unknown>> } {
+  const reader = createByteReader(bytes);
+
+  if (bytes.length < 4 || MAGIC.some(byte => reader.readByte() !== byte)) {
+    throw new Error('Invalid binary world: missing FWB header');
+  }
+  const version = reader.readByte();
+  if (version !== FORMAT_VERSION) {
+    throw new Error(`Unsupported binary world format version ${version}: this tool reads version ${FORMAT_VERSION}`);
+  }
+
+  let frontMatter: { ts?: number };
+  try {
+    frontMatter = JSON.parse(reader.readString());
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new Error(`Invalid binary world: front matter is not valid JSON (${error.message})`);
+    }
+    throw error;
+  }
+
+  const strings = Array.from({ length: reader.readVarint() }, () => reader.readString());
+  const string = (index: number) => {
+    if (index >= strings.length) {
+      throw new Error(`Invalid binary world: string index ${index} is out of range`);
+    }
+    return strings[index];
+  };
+
+  const originX = reader.readFloat64();
+  const originY = reader.readFloat64();
+  const spacing = reader.readFloat64();
+
+  // Exits refer to places by index, so resolve them once every URN is known
+  const placeCount = reader.readVarint();
+  const exitTargets: Array<Array<[string, number]>> = [];
+  const places: Array<Record<string, unknown>> = [];
+
+  for (let index = 0; index < placeCount; index++) {
+    const id = string(reader.readVarint());
+    const ecosystem = string(reader.readVarint());
+    const flags = reader.readByte();
+
+    const coordinates = flags & FLAG_OFF_GRID
+      ? [reader.readNumber(), reader.readNumber()]
+      : [originX + reader.readVarint() * spacing, originY + reader.readVarint() * spacing];
+
+    exitTargets.push(Array.from({ length: reader.readVarint() }, () => {
+      const packed = reader.readVarint();
+      return [EXIT_DIRECTIONS[packed % EXIT_DIRECTIONS.length], Math.floor(packed / EXIT_DIRECTIONS.length)];
+    }));
+
+    const place: Record<string, unknown> = {
+      type: 'place',
+      id,
+      name: '',
+      description: '',
+      exits: {},
+      entities: {},
+      resources: { ts: frontMatter.ts, nodes: {} },
+      ecosystem,
+      coordinates
+    };
+
+    if (flags & FLAG_NAME) {
+      place.name = string(reader.readVarint());
+    }
+    if (flags & FLAG_ELEVATION) {
+      place.elevation = reader.readNumber();
+    }
+    if (flags & FLAG_WEATHER) {
+      place.weather = { temperature: reader.readNumber(), pressure: reader.readNumber(), humidity: reader.readNumber() };
+    }
+    if (flags & FLAG_POI) {
+      const poi = POI_TYPES[reader.readByte()];
+      if (!poi) {
+        throw new Error(`Invalid binary world: unknown point of interest in ${id}`);
+      }
+      place.poi = poi;
+    }
+    if (flags & FLAG_RESOURCES) {
+      const nodes: Record<string, { quantity: number }> = {};
+      const count = reader.readVarint();
+      for (let i = 0; i < count; i++) {
+        nodes[string(reader.readVarint())] = { quantity: reader.readNumber() };
+      }
+      place.resources = { ts: frontMatter.ts, nodes };
+    }
+
+    places.push(place);
+  }
+
+  if (!reader.isAtEnd()) {
+    throw new Error('Invalid binary world: unexpected data after the last place');
+  }
+
+  places.forEach((place, index) => {
+    const exits: Record<string, { direction: string; label: string; to: string }> = {};
+    exitTargets[index].forEach(([direction, target]) => {
+      if (target >= places.length) {
+        throw new Error(`Invalid binary world: exit ${direction} of ${place.id} leads to missing place ${target}`);
+      }
+      exits[direction] = {
+        direction,
+        label: `${direction.charAt(0).toUpperCase() + direction.slice(1)} Path`,
+        to: places[target].id as string
+      };
+    });
+    place.exits = exits;
+  });
+
+  return { frontMatter, places };
+}
+
+/**
+ * Import a binary world through the same migration and validation as JSONL imports.
+ * Issues are numbered by the JSONL line the record would occupy.
+ */
+export function importWorldFromBinary(bytes: Uint8Array): WorldImportResult {
+  const { frontMatter, places } = decodeWorldBinary(bytes);
+
+  const importer = createWorldImporter();
+  importer.pushRecord(frontMatter, 1);
+  places.forEach((place, index) => importer.pushRecord(place, index + 2));
+  return importer.finish();
+}
@@ -0,0 +1,129 @@
+/**
+ * World Diff
+ * Compares two worlds, e.g. before and after a generator change, so regenerated
+ * worlds can be reviewed. Places are matched by coordinates, because their URNs
+ * embed the ecosystem and would otherwise hide ecosystem changes as add + remove.
+ */
+
+import type { PlaceURN } from '@flux';
+import type { WorldGenerationResult, WorldVertex, WorldDiff, PlaceDiffEntry, ExitDiffEntry } from './types';
+import { convertVertexExitsToPlaceExits, getExportURN } from './export';
+import { reconstructWorldFromJSONL } from './import';
+
+// Exported places of one world, keyed by coordinates
+interface IndexedPlace {
+  vertex: WorldVertex;
+  placeId: PlaceURN;
+  exits: Map<string, string>; // Direction → location key of the destination
+}
+
+const locationKey = (vertex: WorldVertex) => `${vertex.x}:${vertex.y}`;
+
+const toEntry = ({ vertex, placeId }: IndexedPlace): PlaceDiffEntry => ({
+  placeId,
+  coordinates: [vertex.x, vertex.y]
+});
+
+// Stable order for reviewable output: by coordinates, then direction
+const byLocation = (a: PlaceDiffEntry, b: PlaceDiffEntry) =>
+  a.coordinates[0] - b.coordinates[0] || a.coordinates[1] - b.coordinates[1];
+
+const byLocationAndDirection = (a: ExitDiffEntry, b: ExitDiffEntry) =>
+  byLocation(a, b) || a.direction.localeCompare(b.direction);
+
+function indexPlaces(world: WorldGenerationResult): Map<string, IndexedPlace> {
+  const keyByUrn = new Map(world.vertices.map(vertex => [getExportURN(vertex) as string, locationKey(vertex)]));
+
+  return new Map(world.vertices.map(vertex => {
+    const exits = new Map<string, string>();
+    const placeExits = convertVertexExitsToPlaceExits(vertex, world) as Record<string, { to: string }>;
+    Object.entries(placeExits).forEach(([direction, exit]) => {
+      exits.set(direction, keyByUrn.get(exit.to)!);
+    });
+
+    return [locationKey(vertex), { vertex, placeId: getExportURN(vertex), exits }];
+  }));
+}
+
+// Exits of `from` that `other` lacks, for places present in both worlds
+function exitsMissingFrom(
+  from: Map<string, IndexedPlace>,
+  other: Map<string, IndexedPlace>
+): ExitDiffEntry[] {
+  const missing: ExitDiffEntry[] = [];
+
+  from.forEach((place, key) => {
+    const otherPlace = other.get(key);
+    if (!otherPlace) return;
+
+    place.exits.forEach((destination, direction) => {
+      if (otherPlace.exits.get(direction) === destination) return;
+      const target = toEntry(from.get(destination)!);
+      missing.push({ ...toEntry(place), direction, to: target.placeId, toCoordinates: target.coordinates });
+    });
+  });
+
+  return missing.sort(byLocationAndDirection);
+}
+
+/**
+ * Differences from one world to another. Exit changes are only reported for
+ * places present in both worlds; exits of added or removed places are implied.
+ */
+export function diffWorlds(before: WorldGenerationResult, after: WorldGenerationResult): WorldDiff {
+  const beforePlaces = indexPlaces(before);
+  const afterPlaces = indexPlaces(after);
+
+  const onlyIn = (places: Map<string, IndexedPlace>, other: Map<string, IndexedPlace>) =>
+    Array.from(places.entries())
+      .filter(([key]) => !other.has(key))
+      .map(([, place]) => toEntry(place))
+      .sort(byLocation);
+
+  const changedEcosystems = Array.from(afterPlaces.entries())
+    .filter(([key, place]) => beforePlaces.has(key) && beforePlaces.get(key)!.vertex.ecosystem !== place.vertex.ecosystem)
+    .map(([key, place]) => ({
+      ...toEntry(place),
+      from: beforePlaces.get(key)!.vertex.ecosystem,
+      to: place.vertex.ecosystem
+    }))
+    .sort(byLocation);
+
+  return {
+    addedPlaces: onlyIn(afterPlaces, beforePlaces),
+    removedPlaces: onlyIn(beforePlaces, afterPlaces),
+    changedEcosystems,
+    addedExits: exitsMissingFrom(afterPlaces, beforePlaces),
+    removedExits: exitsMissingFrom(beforePlaces, afterPlaces)
+  };
+}
+
+/**
+ * Load two JSONL world files and diff them
+ */
+export function diffWorldFiles(beforeContent: string, afterContent: string): {
+  before: WorldGenerationResult;
+  after: WorldGenerationResult;
+  diff: WorldDiff;
+} {
+  const before = reconstructWorldFromJSONL(beforeContent);
+  const after = reconstructWorldFromJSONL(afterContent);
+  return { before, after, diff: diffWorlds(before, after) };
+}
+
+/**
+ * Whether two worlds differ at all
+ */
+export function isWorldDiffEmpty(diff: WorldDiff): boolean {
+  return Object.values(diff).every(entries => entries.length === 0);
+}
+
+/**
+ * Serialize a diff as JSON for review, with a summary of counts first
+ */
+export function exportWorldDiffToJSON(diff: WorldDiff): string {
+  const summary = Object.fromEntries(
+    Object.entries(diff).map(([kind, entries]) => [kind, entries.length])
+  );
+  return JSON.stringify({ summary, ...diff }, null, 2) + '\n';
+}
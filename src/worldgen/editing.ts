@@ -0,0 +1,210 @@
+/**
+ * World Editing
+ * Hand edits to a generated world: connect and disconnect neighbouring places,
+ * repaint ecosystems and rename places. Edits never mutate the world they are
+ * given, so earlier worlds stay intact for undo.
+ */
+
+import type { EcosystemURN } from '@flux';
+import type { WorldGenerationResult, WorldVertex, RiverEdge, ImportIssue } from './types';
+import { determineFlowDirection, getCardinalDirection, hasConnectionToward, validateConnectivity } from './generator';
+import { getExportURN } from './export';
+import { computeSmoothedWeather } from './weather';
+import { seedResourceNodes } from './resources';
+import { createRandomStreams } from './random';
+
+function findVertex(world: WorldGenerationResult, vertexId: string): WorldVertex {
+  const vertex = world.vertices.find(v => v.id === vertexId);
+  if (!vertex) {
+    throw new Error(`Unknown vertex: ${vertexId}`);
+  }
+  return vertex;
+}
+
+function findEdge(world: WorldGenerationResult, a: string, b: string): RiverEdge | undefined {
+  return world.edges.find(edge =>
+    (edge.fromVertexId === a && edge.toVertexId === b) ||
+    (edge.fromVertexId === b && edge.toVertexId === a)
+  );
+}
+
+/**
+ * Whether two vertices are grid neighbours (including diagonals), so an exit between them has a direction of its own
+ */
+export function areVerticesAdjacent(world: WorldGenerationResult, a: WorldVertex, b: WorldVertex): boolean {
+  const spacing = world.spatialMetrics.placeSpacing;
+  const stepsX = Math.round(Math.abs(b.x - a.x) / spacing);
+  const stepsY = Math.round(Math.abs(b.y - a.y) / spacing);
+  return stepsX <= 1 && stepsY <= 1 && stepsX + stepsY > 0;
+}
+
+/**
+ * Assemble the edited world, refreshing everything derived from vertices and edges
+ */
+function applyEdit(
+  world: WorldGenerationResult,
+  vertices: WorldVertex[],
+  edges: RiverEdge[],
+  changes: Partial<WorldGenerationResult> = {}
+): WorldGenerationResult {
+  return {
+    ...world,
+    ...changes,
+    vertices,
+    edges,
+    originVertex: vertices.find(v => v.isOrigin) ?? world.originVertex,
+    connectivityStats: validateConnectivity(vertices, edges),
+    // Weather is smoothed across connections, so any edit can change it
+    smoothedWeather: world.smoothedWeather ? computeSmoothedWeather(vertices) : undefined
+  };
+}
+
+/**
+ * Problems that would stop an edited world from exporting. Reported rather than
+ * thrown, so a world that already has them can still be edited and repaired.
+ */
+export function validateEditedWorld(world: WorldGenerationResult): ImportIssue[] {
+  // Same rule the export enforces: each place must have a unique URN
+  const seen = new Set<string>();
+  const issues: ImportIssue[] = [];
+  world.vertices.forEach(vertex => {
+    if (seen.has(vertex.placeId)) {
+      issues.push({ severity: 'error', message: 'Duplicate place URN: each place must have a unique URN', placeId: vertex.placeId });
+    }
+    seen.add(vertex.placeId);
+  });
+  return issues;
+}
+
+/**
+ * Connect two neighbouring places; each gains an exit to the other
+ */
+export function addConnection(world: WorldGenerationResult, fromVertexId: string, toVertexId: string): WorldGenerationResult {
+  const from = findVertex(world, fromVertexId);
+  const to = findVertex(world, toVertexId);
+
+  if (!areVerticesAdjacent(world, from, to)) {
+    throw new Error(`Cannot connect ${from.placeId} and ${to.placeId}: only neighbouring places can be connected`);
+  }
+  if (findEdge(world, from.id, to.id)) {
+    throw new Error(`${from.placeId} and ${to.placeId} are already connected`);
+  }
+
+  // Exits are keyed by direction, so a second exit along a heading would replace the first
+  const verticesById = new Map(world.vertices.map(v => [v.id, v]));
+  for (const [vertex, other] of [[from, to], [to, from]]) {
+    const heading = getCardinalDirection(vertex, other);
+    if (hasConnectionToward(vertex, heading, verticesById)) {
+      throw new Error(`Cannot connect ${from.placeId} and ${to.placeId}: ${vertex.placeId} already has an exit ${heading}`);
+    }
+  }
+
+  // Generation squares crossing diagonals; edits refuse to create them
+  if (from.x !== to.x && from.y !== to.y) {
+    const corner = (x: number, y: number) => world.vertices.find(v => v.x === x && v.y === y);
+    const a = corner(to.x, from.y);
+    const b = corner(from.x, to.y);
+    if (a && b && findEdge(world, a.id, b.id)) {
+      throw new Error(`Cannot connect ${from.placeId} and ${to.placeId}: it would cross the path between ${a.placeId} and ${b.placeId}`);
+    }
+  }
+
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const angle = Math.round(Math.atan2(dy, dx) * 180 / Math.PI / 45) * 45;
+  const edge: RiverEdge = {
+    id: `${from.id}-${to.id}`,
+    fromVertexId: from.id,
+    toVertexId: to.id,
+    flowDirection: determineFlowDirection(angle),
+    distance: Math.sqrt(dx * dx + dy * dy),
+    angle
+  };
+
+  const vertices = world.vertices.map(vertex =>
+    vertex === from ? { ...vertex, connections: [...vertex.connections, to.id] } :
+    vertex === to ? { ...vertex, connections: [...vertex.connections, from.id] } :
+    vertex
+  );
+
+  return applyEdit(world, vertices, [...world.edges, edge]);
+}
+
+/**
+ * Disconnect two places, removing the exits in both directions
+ */
+export function removeConnection(world: WorldGenerationResult, fromVertexId: string, toVertexId: string): WorldGenerationResult {
+  const from = findVertex(world, fromVertexId);
+  const to = findVertex(world, toVertexId);
+
+  const edge = findEdge(world, from.id, to.id);
+  if (!edge) {
+    throw new Error(`${from.placeId} and ${to.placeId} are not connected`);
+  }
+
+  const vertices = world.vertices.map(vertex =>
+    vertex === from ? { ...vertex, connections: vertex.connections.filter(id => id !== to.id) } :
+    vertex === to ? { ...vertex, connections: vertex.connections.filter(id => id !== from.id) } :
+    vertex
+  );
+
+  return applyEdit(world, vertices, world.edges.filter(e => e !== edge));
+}
+
+/**
+ * Repaint a place's ecosystem. Its URN embeds the biome, so it is recomputed;
+ * resource nodes are reseeded for the new ecosystem.
+ */
+export function setVertexEcosystem(world: WorldGenerationResult, vertexId: string, ecosystem: EcosystemURN): WorldGenerationResult {
+  const vertex = findVertex(world, vertexId);
+  if (vertex.ecosystem === ecosystem) {
+    return world;
+  }
+
+  const repainted: WorldVertex = { ...vertex, ecosystem };
+  repainted.placeId = getExportURN(repainted);
+  const vertices = world.vertices.map(v => v === vertex ? repainted : v);
+
+  // Keep the ecosystem tally and dithered count in step with the repaint
+  const { ditheringStats, ecosystemBands } = world;
+  const band = ecosystemBands.find(b => vertex.x >= b.startX && vertex.x < b.endX) ?? ecosystemBands[ecosystemBands.length - 1];
+  const isDithered = (candidate: EcosystemURN) => (band && candidate !== band.ecosystem ? 1 : 0);
+  const ecosystemCounts = { ...ditheringStats.ecosystemCounts };
+  ecosystemCounts[vertex.ecosystem] = (ecosystemCounts[vertex.ecosystem] ?? 1) - 1;
+  ecosystemCounts[ecosystem] = (ecosystemCounts[ecosystem] ?? 0) + 1;
+
+  let resourceNodes = world.resourceNodes;
+  if (resourceNodes) {
+    resourceNodes = new Map(resourceNodes);
+    resourceNodes.set(vertex.id, seedResourceNodes([repainted], createRandomStreams(world.config.seed ?? 0).seedOf('resources')).get(vertex.id)!);
+  }
+
+  return applyEdit(world, vertices, world.edges, {
+    ditheringStats: {
+      ...ditheringStats,
+      ditheredVertices: ditheringStats.ditheredVertices - isDithered(vertex.ecosystem) + isDithered(ecosystem),
+      ecosystemCounts
+    },
+    resourceNodes
+  });
+}
+
+/**
+ * Give a place a hand-set name; a blank name restores the generated one
+ */
+export function renamePlace(world: WorldGenerationResult, vertexId: string, name: string): WorldGenerationResult {
+  const vertex = findVertex(world, vertexId);
+  const trimmed = name.trim();
+
+  const renamed: WorldVertex = { ...vertex, name: trimmed || undefined };
+  if (renamed.name === vertex.name) {
+    return world;
+  }
+
+  // Names don't feed into connectivity or weather, so nothing else needs refreshing
+  return {
+    ...world,
+    vertices: world.vertices.map(v => v === vertex ? renamed : v),
+    originVertex: vertex.isOrigin ? renamed : world.originVertex
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * Elevation Field for World Generation
+ * Layered value noise on top of a per-biome base height profile
+ */
+
+import type { EcosystemURN } from '@flux';
+import type { EcosystemBand } from './types';
+import { smoothstep, valueNoise } from './noise';
+
+// Base height (meters) and noise relief (meters) per biome
+const BIOME_ELEVATION: Record<string, { base: number; relief: number }> = {
+  steppe: { base: 600, relief: 150 },
+  grassland: { base: 300, relief: 120 },
+  forest: { base: 450, relief: 180 },
+  mountain: { base: 2200, relief: 900 },
+  jungle: { base: 200, relief: 120 },
+  marsh: { base: 10, relief: 5 }
+};
+
+const DEFAULT_BIOME_ELEVATION = { base: 400, relief: 150 };
+
+// Noise parameters
+const NOISE_OCTAVES = 4;
+const NOISE_BASE_WAVELENGTH = 3000; // meters
+const NOISE_PERSISTENCE = 0.5;
+const NOISE_LACUNARITY = 2;
+
+function getBiomeElevation(ecosystem: EcosystemURN): { base: number; relief: number } {
+  const biome = ecosystem.split(':')[2];
+  return BIOME_ELEVATION[biome] ?? DEFAULT_BIOME_ELEVATION;
+}
+
+/**
+ * Layered (fractal) value noise, normalized to [0, 1)
+ */
+function layeredNoise(x: number, y: number, seed: number): number {
+  let amplitude = 1;
+  let frequency = 1 / NOISE_BASE_WAVELENGTH;
+  let total = 0;
+  let maxAmplitude = 0;
+
+  for (let octave = 0; octave < NOISE_OCTAVES; octave++) {
+    total += valueNoise(x * frequency, y * frequency, seed + octave * 7919) * amplitude;
+    maxAmplitude += amplitude;
+    amplitude *= NOISE_PERSISTENCE;
+    frequency *= NOISE_LACUNARITY;
+  }
+
+  return total / maxAmplitude;
+}
+
+/**
+ * Interpolate the biome base height and relief between band centers
+ */
+function sampleBandProfile(x: number, bands: EcosystemBand[]): { base: number; relief: number } {
+  const centers = bands.map(band => ({
+    x: (band.startX + band.endX) / 2,
+    ...getBiomeElevation(band.ecosystem)
+  }));
+
+  if (x <= centers[0].x) return centers[0];
+  if (x >= centers[centers.length - 1].x) return centers[centers.length - 1];
+
+  for (let i = 0; i < centers.length - 1; i++) {
+    const left = centers[i];
+    const right = centers[i + 1];
+    if (x >= left.x && x <= right.x) {
+      const t = smoothstep((x - left.x) / (right.x - left.x));
+      return {
+        base: left.base + (right.base - left.base) * t,
+        relief: left.relief + (right.relief - left.relief) * t
+      };
+    }
+  }
+
+  return DEFAULT_BIOME_ELEVATION;
+}
+
+/**
+ * Create a seeded elevation field for the given ecosystem bands.
+ * Returns elevation in whole meters at any world position; the same seed
+ * and bands always yield the same heights. Draws nothing from the shared RNG.
+ */
+export function createElevationField(seed: number, bands: EcosystemBand[]): (x: number, y: number) => number {
+  const noiseSeed = seed | 0;
+
+  return (x: number, y: number): number => {
+    const { base, relief } = sampleBandProfile(x, bands);
+    const noise = layeredNoise(x, y, noiseSeed) * 2 - 1; // [-1, 1)
+    return Math.max(0, Math.round(base + noise * relief));
+  };
+}
@@ -2,17 +2,83 @@
  * JSONL Export System for World Generation
  *
  * Exports generated worlds as JSONL files where each line contains a well-formed Place object
- * conforming to the game's Place type definition.
+ * conforming to the game's Place type definition, and as GraphML / GEXF graphs of the river
+ * network for external graph tools.
  */
 
 import type { Place, Exits, EcosystemURN, Biome, PlaceURN } from '@flux';
 import { EntityType, Direction } from '@flux';
-import type { WorldGenerationResult, WorldVertex, WorldGenerationConfig } from './types';
+import type {
+  WorldGenerationResult,
+  WorldVertex,
+  WorldGenerationConfig,
+  SpatialMetrics,
+  EcosystemBand,
+  DitheringStats,
+  ConnectivityStats
+} from './types';
+import { computeSmoothedWeather } from './weather';
+import { seedResourceNodes } from './resources';
+import { generatePlaceTexts } from './naming';
+import { createRandomStreams } from './random';
+import { WORLD_FILE_SCHEMA_VERSION } from './schema';
 
 export type WorldExportMetadata = {
+  schemaVersion: number; // World file schema version, see ./schema
   version: string;
   ts: number;
   config: WorldGenerationConfig;
+  // Layout and statistics; absent in files exported before they were stored
+  spatialMetrics?: SpatialMetrics;
+  ecosystemBands?: EcosystemBand[];
+  ditheringStats?: DitheringStats;
+  connectivityStats?: ConnectivityStats;
+}
+
+export interface WorldExportOptions {
+  // Deterministic exports are byte-identical for a given seed and config: the
+  // timestamp is derived from the seed unless given, and object keys are sorted
+  deterministic?: boolean;
+  // Timestamp written to the front matter and resources, in milliseconds since the epoch
+  timestamp?: number;
+}
+
+// Deterministic exports are stamped at a second within the year after this date, picked by the seed
+const DETERMINISTIC_EPOCH = Date.UTC(2024, 0, 1);
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+/**
+ * Timestamp an export records: the given one, a seed-derived one for deterministic exports,
+ * otherwise now. A seed-derived timestamp is a plausible date but not when the export was made.
+ */
+export function resolveExportTimestamp(world: WorldGenerationResult, options: WorldExportOptions = {}): number {
+  if (options.timestamp !== undefined) {
+    return options.timestamp;
+  }
+  if (!options.deterministic) {
+    return Date.now();
+  }
+  return DETERMINISTIC_EPOCH + ((world.config.seed ?? 0) >>> 0) % SECONDS_PER_YEAR * 1000;
+}
+
+/**
+ * JSON with object keys in sorted order at every level, so equal values serialize to equal bytes
+ */
+export function canonicalStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, current: unknown) => {
+    if (typeof current !== 'object' || current === null || Array.isArray(current)) {
+      return current;
+    }
+    const record = current as Record<string, unknown>;
+    return Object.fromEntries(Object.keys(record).sort().map(key => [key, record[key]]));
+  });
+}
+
+/**
+ * Serialize one record of an export, canonically for deterministic exports
+ */
+export function stringifyExportRecord(value: unknown, options: WorldExportOptions = {}): string {
+  return options.deterministic ? canonicalStringify(value) : JSON.stringify(value);
 }
 
 // Helper function to extract biome from ecosystem URN
@@ -21,18 +87,33 @@ function getBiomeFromURN(ecosystemURN: EcosystemURN): Biome {
 }
 
 /**
- * Generates the front matter line for the JSONL export containing generation parameters
+ * Front matter for an export, containing generation parameters, layout and statistics
  */
-function generateFrontMatter(
+export function createExportMetadata(
   world: WorldGenerationResult,
   now = Date.now(),
-): string {
-  const metadata: WorldExportMetadata = {
+): WorldExportMetadata {
+  return {
+    schemaVersion: WORLD_FILE_SCHEMA_VERSION,
     version: world.version,
     ts: now,
-    config: world.config
+    config: world.config,
+    spatialMetrics: world.spatialMetrics,
+    ecosystemBands: world.ecosystemBands,
+    ditheringStats: world.ditheringStats,
+    connectivityStats: world.connectivityStats
   };
-  return JSON.stringify(metadata);
+}
+
+/**
+ * Generates the front matter line for the JSONL export containing generation parameters
+ */
+function generateFrontMatter(
+  world: WorldGenerationResult,
+  now: number,
+  options: WorldExportOptions,
+): string {
+  return stringifyExportRecord(createExportMetadata(world, now), options);
 }
 
 /**
@@ -45,51 +126,23 @@ export function generatePlaceURN(ecosystem: EcosystemURN, coordinates: [number,
 }
 
 /**
- * Generate a descriptive name for a place based on its vertex properties
+ * Generate the stable URN for an additional spawn point
  */
-export function generatePlaceName(vertex: WorldVertex): string {
-  const biome = getBiomeFromURN(vertex.ecosystem);
-  const isOrigin = vertex.isOrigin;
-
-  if (isOrigin) {
-    return "Home base";
-  }
-
-  const biomeNames = {
-    steppe: ["Windswept Plains", "Arid Steppes", "Rolling Plains"],
-    grassland: ["Verdant Fields", "Grassy Meadows", "Open Plains"],
-    forest: ["Dense Woods", "Ancient Forest", "Shaded Grove"],
-    mountain: ["Rocky Heights", "Mountain Pass", "Craggy Peaks"],
-    jungle: ["Thick Jungle", "Dense Rainforest", "Tropical Grove"],
-    marsh: ["Murky Wetlands", "Misty Marsh", "Foggy Swamp"]
-  };
-
-  const names = biomeNames[biome] || ["Unknown Region"];
-  const index = Math.abs(vertex.x * vertex.y) % names.length;
-  return names[index];
+export function generateSpawnURN(spawnIndex: number): PlaceURN {
+  return `flux:place:spawn:${spawnIndex}` as PlaceURN;
 }
 
 /**
- * Generate a descriptive description for a place based on its vertex properties
+ * URN a vertex is exported under: fixed URNs for the origin and spawn points
  */
-export function generatePlaceDescription(vertex: WorldVertex): string {
-  const biome = getBiomeFromURN(vertex.ecosystem);
-  const isOrigin = vertex.isOrigin;
-
-  if (isOrigin) {
-    return "The home base of the player. This is the starting point for all players.";
+export function getExportURN(vertex: WorldVertex): PlaceURN {
+  if (vertex.isOrigin) {
+    return 'flux:place:origin' as PlaceURN;
   }
-
-  const biomeDescriptions = {
-    steppe: "Dry grasslands stretch endlessly toward the horizon.",
-    grassland: "Lush grass sways gently in the breeze.",
-    forest: "Ancient trees tower overhead, their branches forming a dense canopy.",
-    mountain: "Jagged rocks and steep cliffs dominate the landscape.",
-    jungle: "Thick vegetation and exotic plants fill every direction.",
-    marsh: "Mist hangs over the waterlogged ground."
-  };
-
-  return biomeDescriptions[biome] || "An unexplored region awaits.";
+  if (vertex.spawnIndex) {
+    return generateSpawnURN(vertex.spawnIndex);
+  }
+  return generatePlaceURN(vertex.ecosystem, [vertex.x, vertex.y]);
 }
 
 /**
@@ -137,9 +190,7 @@ export function convertVertexExitsToPlaceExits(vertex: WorldVertex, world: World
     const directionKey = direction.toLowerCase() as keyof Exits;
 
     // Generate proper PlaceURN for the connected vertex
-    const targetURN = connectedVertex.isOrigin
-      ? 'flux:place:origin' as PlaceURN
-      : generatePlaceURN(connectedVertex.ecosystem, [connectedVertex.x, connectedVertex.y]);
+    const targetURN = getExportURN(connectedVertex);
 
     exits[directionKey] = {
       direction: directionKey,
@@ -154,7 +205,7 @@ export function convertVertexExitsToPlaceExits(vertex: WorldVertex, world: World
 /**
  * Export world as JSONL string with special handling for origin URN
  */
-export function exportWorldToJSONL(world: WorldGenerationResult): string {
+export function exportWorldToJSONL(world: WorldGenerationResult, options: WorldExportOptions = {}): string {
   // First, identify the origin vertex
   const originVertex = world.vertices.find(v => v.isOrigin);
   if (!originVertex) {
@@ -167,13 +218,20 @@ export function exportWorldToJSONL(world: WorldGenerationResult): string {
 
   console.log(`Mapping origin place: ${originalOriginURN} → ${newOriginURN}`);
 
+  const now = resolveExportTimestamp(world, options);
+
+  // Baseline weather is computed during generation; fall back for worlds that lack it
+  const smoothedWeather = world.smoothedWeather ?? computeSmoothedWeather(world.vertices);
+  const streams = createRandomStreams(world.config.seed ?? 0);
+  const resourceNodes = world.resourceNodes ?? seedResourceNodes(world.vertices, streams.seedOf('resources'));
+  const placeTexts = generatePlaceTexts(world.vertices, streams.seedOf('naming'));
+
   // Create Place objects for all vertices
   const places = world.vertices.map(vertex => {
     const coordinates: [number, number] = [vertex.x, vertex.y];
-    const isOrigin = vertex.isOrigin;
 
-    // Generate the place ID - special case for origin
-    const placeId = isOrigin ? newOriginURN : generatePlaceURN(vertex.ecosystem, coordinates);
+    // Generate the place ID - special case for origin and spawn points
+    const placeId = getExportURN(vertex);
 
     // Store the generated URN in the vertex for exit reference
     vertex.placeId = placeId;
@@ -181,13 +239,16 @@ export function exportWorldToJSONL(world: WorldGenerationResult): string {
     const place: Place = {
       type: EntityType.PLACE,
       id: placeId,
-      name: generatePlaceName(vertex),
-      description: generatePlaceDescription(vertex),
+      name: vertex.name ?? placeTexts.get(vertex.id)!.name,
+      description: placeTexts.get(vertex.id)!.description,
       exits: convertVertexExitsToPlaceExits(vertex, world),
       entities: {},
-      resources: { ts: Date.now(), nodes: {} },
+      resources: { ts: now, nodes: resourceNodes.get(vertex.id) ?? {} },
       ecosystem: vertex.ecosystem,
       coordinates: coordinates,
+      elevation: vertex.elevation,
+      weather: smoothedWeather.get(vertex.id),
+      poi: vertex.poi,
     } as unknown as Place; // We are intentionally leaving out some fields
     return place;
   });
@@ -220,17 +281,139 @@ export function exportWorldToJSONL(world: WorldGenerationResult): string {
   }
 
   // Generate front matter as first line
-  const frontMatter = generateFrontMatter(world);
+  const frontMatter = generateFrontMatter(world, now, options);
 
   // Convert places to JSONL, with front matter as first line
-  return frontMatter + '\n' + places.map(place => JSON.stringify(place)).join('\n');
+  return frontMatter + '\n' + places.map(place => stringifyExportRecord(place, options)).join('\n');
+}
+
+/**
+ * Escape text for use in XML content and attribute values
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Nodes and edges of the river network, keyed by export URN so graph tools
+ * and the MUD refer to places by the same IDs
+ */
+function getGraphElements(world: WorldGenerationResult) {
+  const urnByVertexId = new Map(world.vertices.map(vertex => [vertex.id, getExportURN(vertex)]));
+
+  const nodes = world.vertices.map(vertex => ({
+    id: urnByVertexId.get(vertex.id)!,
+    ecosystem: vertex.ecosystem,
+    x: vertex.x,
+    y: vertex.y
+  }));
+
+  const edges = world.edges
+    .filter(edge => urnByVertexId.has(edge.fromVertexId) && urnByVertexId.has(edge.toVertexId))
+    .map((edge, index) => ({
+      id: `e${index}`,
+      source: urnByVertexId.get(edge.fromVertexId)!,
+      target: urnByVertexId.get(edge.toVertexId)!,
+      flowDirection: edge.flowDirection,
+      distance: edge.distance
+    }));
+
+  return { nodes, edges };
+}
+
+/**
+ * Export the river network as GraphML (yEd, Gephi, NetworkX).
+ * Edges are directed along the river flow.
+ */
+export function exportWorldToGraphML(world: WorldGenerationResult): string {
+  const { nodes, edges } = getGraphElements(world);
+  const data = (key: string, value: string | number) => `<data key="${key}">${escapeXml(String(value))}</data>`;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="ecosystem" for="node" attr.name="ecosystem" attr.type="string"/>',
+    '  <key id="x" for="node" attr.name="x" attr.type="double"/>',
+    '  <key id="y" for="node" attr.name="y" attr.type="double"/>',
+    '  <key id="flowDirection" for="edge" attr.name="flowDirection" attr.type="string"/>',
+    '  <key id="distance" for="edge" attr.name="distance" attr.type="double"/>',
+    '  <graph id="world" edgedefault="directed">',
+    ...nodes.map(node =>
+      `    <node id="${escapeXml(node.id)}">${data('ecosystem', node.ecosystem)}${data('x', node.x)}${data('y', node.y)}</node>`
+    ),
+    ...edges.map(edge =>
+      `    <edge id="${edge.id}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">` +
+      `${data('flowDirection', edge.flowDirection)}${data('distance', edge.distance)}</edge>`
+    ),
+    '  </graph>',
+    '</graphml>'
+  ].join('\n');
+}
+
+/**
+ * Export the river network as GEXF (Gephi). Node positions are written as
+ * viz:position so the graph opens in its geographic layout; GEXF y points up,
+ * matching world coordinates.
+ */
+export function exportWorldToGEXF(world: WorldGenerationResult): string {
+  const { nodes, edges } = getGraphElements(world);
+  const attvalue = (id: string, value: string | number) => `<attvalue for="${id}" value="${escapeXml(String(value))}"/>`;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" version="1.3">',
+    `  <meta><creator>worldgen ${escapeXml(world.version)}</creator></meta>`,
+    '  <graph defaultedgetype="directed">',
+    '    <attributes class="node">',
+    '      <attribute id="ecosystem" title="ecosystem" type="string"/>',
+    '      <attribute id="x" title="x" type="double"/>',
+    '      <attribute id="y" title="y" type="double"/>',
+    '    </attributes>',
+    '    <attributes class="edge">',
+    '      <attribute id="flowDirection" title="flowDirection" type="string"/>',
+    '      <attribute id="distance" title="distance" type="double"/>',
+    '    </attributes>',
+    '    <nodes>',
+    ...nodes.map(node =>
+      `      <node id="${escapeXml(node.id)}" label="${escapeXml(node.id)}">` +
+      `<attvalues>${attvalue('ecosystem', node.ecosystem)}${attvalue('x', node.x)}${attvalue('y', node.y)}</attvalues>` +
+      `<viz:position x="${node.x}" y="${node.y}" z="0"/></node>`
+    ),
+    '    </nodes>',
+    '    <edges>',
+    ...edges.map(edge =>
+      `      <edge id="${edge.id}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}" weight="${edge.distance}">` +
+      `<attvalues>${attvalue('flowDirection', edge.flowDirection)}${attvalue('distance', edge.distance)}</attvalues></edge>`
+    ),
+    '    </edges>',
+    '  </graph>',
+    '</gexf>'
+  ].join('\n');
 }
 
 /**
  * Trigger file download in browser
  */
 export function downloadJSONL(content: string, filename: string): void {
-  const blob = new Blob([content], { type: 'text/plain' });
+  downloadFile(content, filename, 'text/plain');
+}
+
+/**
+ * Trigger download of a text file with the given MIME type
+ */
+export function downloadFile(content: string, filename: string, mimeType: string): void {
+  downloadBlob(new Blob([content], { type: mimeType }), filename);
+}
+
+/**
+ * Trigger download of binary content, such as a rendered image
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
   const url = URL.createObjectURL(blob);
 
   const link = document.createElement('a');
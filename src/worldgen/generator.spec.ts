@@ -1,4 +1,17 @@
-import { generateWorld } from './generator';
+import { readFileSync, readdirSync } from 'node:fs';
+import { generateWorld, validateConnectivity, findShortestPathFromOrigin } from './generator';
+import { generatePlaceTexts } from './naming';
+import { createRandomStreams } from './random';
+import { createElevationField } from './elevation';
+import { seedResourceNodes } from './resources';
+import { exportWorldToJSONL, exportWorldToGraphML, exportWorldToGEXF, getExportURN, generatePlaceURN } from './export';
+import { createWorldImporter, createLineDecoder, reconstructWorldFromJSONL } from './import';
+import { exportWorldToBinary, decodeWorldBinary, importWorldFromBinary } from './binary';
+import { diffWorlds, diffWorldFiles, isWorldDiffEmpty, exportWorldDiffToJSON } from './diff';
+import { addConnection, removeConnection, setVertexEcosystem, renamePlace, areVerticesAdjacent, validateEditedWorld } from './editing';
+import { WORLD_FILE_SCHEMA_VERSION, validatePlace } from './schema';
+import { DEFAULT_BIOMES } from './types';
+import type { WorldVertex, RiverEdge } from './types';
 
 describe('River Flow Generation', () => {
   it('should generate a continuous eastward-flowing river network', () => {
@@ -200,6 +213,28 @@ describe('River Flow Generation', () => {
     console.log(`✅ Boundary collision handling test passed! (${(boundaryRatio * 100).toFixed(1)}% at boundaries)`);
   });
 
+  it('should create one place per grid cell when branches clamp to the same boundary row', () => {
+    const world = generateWorld({ seed: 12345 });
+
+    const cells = world.vertices.map(v => `${v.gridX},${v.gridY}`);
+    expect(new Set(cells).size).toBe(cells.length);
+    expect(new Set(world.vertices.map(v => v.placeId)).size).toBe(world.vertices.length);
+    expect(() => exportWorldToJSONL(world)).not.toThrow();
+  });
+
+  it('should give each place at most one connection per direction', () => {
+    const world = generateWorld({ seed: 12345 });
+    const byId = new Map(world.vertices.map(v => [v.id, v]));
+
+    for (const vertex of world.vertices) {
+      const headings = vertex.connections.map(id => {
+        const other = byId.get(id)!;
+        return Math.round(Math.atan2(other.y - vertex.y, other.x - vertex.x) * 4 / Math.PI);
+      });
+      expect(new Set(headings).size).toBe(headings.length);
+    }
+  });
+
   it('should generate proper ecosystem bands', () => {
     const config = {
       worldWidthKm: 14.5,
@@ -474,3 +509,1068 @@ describe('River Flow Generation', () => {
     expect(integrityViolations.length).toBe(0); // This will fail and reproduce the defect
   });
 });
+
+describe('River Meandering', () => {
+  // Variance of the per-step north/south drift across every edge in the world
+  function verticalStepVariance(world: ReturnType<typeof generateWorld>): number {
+    const vertexMap = new Map(world.vertices.map(v => [v.id, v]));
+    const steps = world.edges.map(edge => {
+      const from = vertexMap.get(edge.fromVertexId)!;
+      const to = vertexMap.get(edge.toVertexId)!;
+      return to.gridY - from.gridY;
+    });
+
+    const mean = steps.reduce((sum, dy) => sum + dy, 0) / steps.length;
+    return steps.reduce((sum, dy) => sum + (dy - mean) ** 2, 0) / steps.length;
+  }
+
+  it('should increase the vertical variance of paths as meanderingFactor rises', () => {
+    const seeds = [12345, 54321, 11435];
+
+    const averageVariance = (meanderingFactor: number) => {
+      const variances = seeds.map(seed => {
+        const world = generateWorld({ seed, branchingFactor: 0.6, meanderingFactor });
+        expect(world.edges.length).toBeGreaterThan(0);
+        return verticalStepVariance(world);
+      });
+      return variances.reduce((sum, v) => sum + v, 0) / variances.length;
+    };
+
+    const straight = averageVariance(0.0);
+    const sinuous = averageVariance(1.0);
+
+    console.log(`🌊 Vertical step variance: meandering 0.0 = ${straight.toFixed(3)}, meandering 1.0 = ${sinuous.toFixed(3)}`);
+
+    expect(sinuous).toBeGreaterThan(straight);
+  });
+
+  it('should keep straight channels mostly eastward when meanderingFactor is 0', () => {
+    const world = generateWorld({ seed: 12345, branchingFactor: 0, meanderingFactor: 0 });
+
+    const vertexMap = new Map(world.vertices.map(v => [v.id, v]));
+    const eastwardSteps = world.edges.filter(edge => {
+      const from = vertexMap.get(edge.fromVertexId)!;
+      const to = vertexMap.get(edge.toVertexId)!;
+      return from.gridY === to.gridY;
+    });
+
+    expect(eastwardSteps.length / world.edges.length).toBeGreaterThan(0.8);
+  });
+});
+
+describe('Biome Palette', () => {
+  it('should build bands from a custom biome list with relative widths', () => {
+    const world = generateWorld({
+      seed: 12345,
+      worldWidthKm: 16,
+      biomes: [
+        { ecosystem: 'flux:eco:forest:temperate', width: 1, connectivity: 2.0 },
+        { ecosystem: 'flux:eco:mountain:arid', width: 2, connectivity: 1.5 },
+        { ecosystem: 'flux:eco:marsh:tropical', width: 1, connectivity: 1.0 }
+      ],
+      easternEdgeEcosystem: null
+    });
+
+    expect(world.ecosystemBands.map(b => b.ecosystem)).toEqual([
+      'flux:eco:forest:temperate',
+      'flux:eco:mountain:arid',
+      'flux:eco:marsh:tropical'
+    ]);
+    expect(world.ecosystemBands.map(b => b.width)).toEqual([4000, 8000, 4000]);
+    expect(world.ecosystemBands[0].startX).toBe(0);
+    expect(world.ecosystemBands[2].endX).toBe(16000);
+
+    // Origin takes the westernmost ecosystem (or a dithered neighbour)
+    expect(['flux:eco:forest:temperate', 'flux:eco:mountain:arid']).toContain(world.originVertex.ecosystem);
+
+    // Only palette ecosystems appear, and forest never reaches the non-adjacent marsh band
+    const palette = world.ecosystemBands.map(b => b.ecosystem);
+    world.vertices.forEach(vertex => {
+      expect(palette).toContain(vertex.ecosystem);
+    });
+    const forestInMarshBand = world.vertices.filter(v => v.ecosystem === 'flux:eco:forest:temperate' && v.x >= 12000);
+    expect(forestInMarshBand.length).toBe(0);
+  });
+
+  it('should skip the eastern edge zone when easternEdgeEcosystem is null', () => {
+    const world = generateWorld({ seed: 12345, easternEdgeEcosystem: null });
+    expect(world.vertices.some(v => v.ecosystem === 'flux:eco:marsh:tropical')).toBe(false);
+  });
+
+  it('should reject invalid biome lists', () => {
+    expect(() => generateWorld({ seed: 1, biomes: [] })).toThrow(/at least one ecosystem/);
+    expect(() => generateWorld({
+      seed: 1,
+      biomes: [
+        { ecosystem: 'flux:eco:forest:temperate', width: 1, connectivity: 2 },
+        { ecosystem: 'flux:eco:forest:temperate', width: 1, connectivity: 2 }
+      ]
+    })).toThrow(/more than once/);
+    expect(() => generateWorld({
+      seed: 1,
+      biomes: [{ ecosystem: 'flux:eco:forest:temperate', width: 0, connectivity: 2 }]
+    })).toThrow(/positive width/);
+  });
+});
+
+describe('Elevation', () => {
+  it('should assign a deterministic elevation to every vertex', () => {
+    const first = generateWorld({ seed: 12345 });
+    const second = generateWorld({ seed: 12345 });
+
+    first.vertices.forEach(vertex => {
+      expect(Number.isFinite(vertex.elevation)).toBe(true);
+      expect(vertex.elevation).toBeGreaterThanOrEqual(0);
+    });
+    expect(second.vertices.map(v => v.elevation)).toEqual(first.vertices.map(v => v.elevation));
+  });
+
+  it('should make the mountain band the highest terrain', () => {
+    const world = generateWorld({ seed: 12345 });
+
+    const meanElevationInBand = (ecosystem: string) => {
+      const band = world.ecosystemBands.find(b => b.ecosystem === ecosystem)!;
+      const inBand = world.vertices.filter(v => v.x >= band.startX && v.x < band.endX);
+      return inBand.reduce((sum, v) => sum + v.elevation!, 0) / inBand.length;
+    };
+
+    const mountain = meanElevationInBand('flux:eco:mountain:arid');
+    const others = world.ecosystemBands
+      .filter(b => b.ecosystem !== 'flux:eco:mountain:arid')
+      .map(b => meanElevationInBand(b.ecosystem));
+
+    others.forEach(elevation => {
+      expect(mountain).toBeGreaterThan(elevation);
+    });
+  });
+});
+
+describe('Weather', () => {
+  it('should compute plausible, smoothed weather for every place', () => {
+    const world = generateWorld({ seed: 12345 });
+    const weather = world.smoothedWeather!;
+
+    expect(weather).toBeDefined();
+    expect(weather.size).toBe(world.vertices.length);
+
+    world.vertices.forEach(vertex => {
+      const { temperature, pressure, humidity } = weather.get(vertex.id)!;
+      expect(temperature).toBeGreaterThan(-40);
+      expect(temperature).toBeLessThan(50);
+      expect(pressure).toBeGreaterThan(500);
+      expect(pressure).toBeLessThanOrEqual(1013.3);
+      expect(humidity).toBeGreaterThanOrEqual(0);
+      expect(humidity).toBeLessThanOrEqual(100);
+    });
+
+    // Highlands are colder and thinner-aired than the lowland jungle
+    const meanOf = (ecosystem: string, key: 'temperature' | 'pressure') => {
+      const matching = world.vertices.filter(v => v.ecosystem === ecosystem);
+      return matching.reduce((sum, v) => sum + weather.get(v.id)![key], 0) / matching.length;
+    };
+    expect(meanOf('flux:eco:mountain:arid', 'temperature')).toBeLessThan(meanOf('flux:eco:jungle:tropical', 'temperature'));
+    expect(meanOf('flux:eco:mountain:arid', 'pressure')).toBeLessThan(meanOf('flux:eco:jungle:tropical', 'pressure'));
+  });
+});
+
+describe('Resource Nodes', () => {
+  it('should seed the same resource nodes for the same seed', () => {
+    const world1 = generateWorld({ seed: 12345 });
+    const world2 = generateWorld({ seed: 12345 });
+
+    expect(world1.resourceNodes).toBeDefined();
+    expect(world1.resourceNodes!.size).toBe(world1.vertices.length);
+    world1.vertices.forEach(vertex => {
+      expect(world2.resourceNodes!.get(vertex.id)).toEqual(world1.resourceNodes!.get(vertex.id));
+    });
+  });
+
+  it('should only place resources that belong to the ecosystem', () => {
+    const world = generateWorld({ seed: 12345 });
+    const resourcesByBiome = new Map<string, Set<string>>();
+
+    world.vertices.forEach(vertex => {
+      const biome = vertex.ecosystem.split(':')[2];
+      if (!resourcesByBiome.has(biome)) {
+        resourcesByBiome.set(biome, new Set());
+      }
+      Object.entries(world.resourceNodes!.get(vertex.id)!).forEach(([resource, node]) => {
+        expect(node.quantity).toBeGreaterThan(0);
+        resourcesByBiome.get(biome)!.add(resource);
+      });
+    });
+
+    expect(resourcesByBiome.get('mountain')).toContain('ore');
+    expect(resourcesByBiome.get('forest')).toContain('timber');
+    expect(resourcesByBiome.get('forest')).not.toContain('ore');
+    expect(resourcesByBiome.get('steppe')).not.toContain('timber');
+  });
+});
+
+describe('Place Names', () => {
+  it('should generate the same names for the same seed', () => {
+    const world = generateWorld({ seed: 12345 });
+    const texts1 = generatePlaceTexts(world.vertices, 12345);
+    const texts2 = generatePlaceTexts(world.vertices, 12345);
+
+    expect(texts1.size).toBe(world.vertices.length);
+    world.vertices.forEach(vertex => {
+      expect(texts2.get(vertex.id)).toEqual(texts1.get(vertex.id));
+    });
+  });
+
+  it('should not repeat a name between nearby places', () => {
+    const world = generateWorld({ seed: 12345 });
+    const texts = generatePlaceTexts(world.vertices, 12345);
+
+    world.vertices.forEach(a => {
+      world.vertices.forEach(b => {
+        if (a.id >= b.id || Math.hypot(a.x - b.x, a.y - b.y) >= 1000) return;
+        expect(texts.get(a.id)!.name).not.toBe(texts.get(b.id)!.name);
+      });
+    });
+  });
+
+  it('should keep disambiguating names past the last numeral', () => {
+    const world = generateWorld({ seed: 12345 });
+    const template = world.vertices.find(v => !v.isOrigin)!;
+    // Identical places share every attempt, so more of them than attempts times numerals need counters
+    const crowd = Array.from({ length: 100 }, (_, i) => ({ ...template, id: `crowd-${i}` }));
+    const names = [...generatePlaceTexts(crowd, 12345).values()].map(text => text.name);
+
+    expect(new Set(names).size).toBe(crowd.length);
+    expect(names.some(name => / 11$/.test(name))).toBe(true);
+  });
+
+  it('should mention river forks in descriptions', () => {
+    const world = generateWorld({ seed: 12345 });
+    const texts = generatePlaceTexts(world.vertices, 12345);
+    const forks = world.vertices.filter(v => !v.isOrigin && v.connections.length >= 3);
+
+    expect(forks.length).toBeGreaterThan(0);
+    forks.forEach(vertex => {
+      expect(texts.get(vertex.id)!.description).toMatch(/fork|branches|meeting of waters/);
+    });
+  });
+});
+
+describe('Points of Interest', () => {
+  it('should tag landmarks deterministically for the same seed', () => {
+    const world1 = generateWorld({ seed: 12345 });
+    const world2 = generateWorld({ seed: 12345 });
+
+    const landmarks1 = world1.vertices.filter(v => v.poi).map(v => `${v.id}:${v.poi}`);
+    const landmarks2 = world2.vertices.filter(v => v.poi).map(v => `${v.id}:${v.poi}`);
+
+    expect(landmarks1.length).toBeGreaterThan(0);
+    expect(landmarks2).toEqual(landmarks1);
+  });
+
+  it('should respect topology and spacing rules', () => {
+    const world = generateWorld({ seed: 12345 });
+    const landmarks = world.vertices.filter(v => v.poi);
+
+    landmarks.forEach(vertex => {
+      expect(vertex.isOrigin).toBe(false);
+      if (vertex.poi === 'confluence') expect(vertex.connections.length).toBeGreaterThanOrEqual(3);
+      if (vertex.poi === 'hollow') expect(vertex.connections.length).toBe(1);
+    });
+
+    landmarks.forEach(a => {
+      landmarks.forEach(b => {
+        if (a.id === b.id) return;
+        expect(Math.hypot(a.x - b.x, a.y - b.y)).toBeGreaterThanOrEqual(1500);
+      });
+    });
+  });
+
+  it('should give every landmark a unique name', () => {
+    const world = generateWorld({ seed: 12345 });
+    const texts = generatePlaceTexts(world.vertices, 12345);
+    const names = world.vertices.map(v => texts.get(v.id)!.name);
+
+    world.vertices.filter(v => v.poi).forEach(vertex => {
+      const name = texts.get(vertex.id)!.name;
+      expect(names.filter(other => other === name)).toHaveLength(1);
+    });
+  });
+});
+
+describe('Origin Placement and Spawns', () => {
+  it('should keep the origin at the western river source by default', () => {
+    const world = generateWorld({ seed: 12345 });
+    const origin = world.vertices.find(v => v.isOrigin)!;
+
+    expect(origin.id).toBe('origin');
+    expect(origin.gridX).toBe(0);
+    expect(world.vertices.filter(v => v.spawnIndex)).toHaveLength(0);
+  });
+
+  it('should move the origin to the vertex nearest explicit grid coordinates', () => {
+    const world = generateWorld({ seed: 12345, originPlacement: { gridX: 20, gridY: 10 } });
+    const origins = world.vertices.filter(v => v.isOrigin);
+
+    expect(origins).toHaveLength(1);
+    expect(origins[0].id).toBe('origin');
+    expect(origins[0].placeId).toBe('flux:place:origin');
+    expect(origins[0].gridX).toBeGreaterThan(0);
+
+    // Every edge still references existing vertices
+    const ids = new Set(world.vertices.map(v => v.id));
+    world.edges.forEach(edge => {
+      expect(ids.has(edge.fromVertexId)).toBe(true);
+      expect(ids.has(edge.toVertexId)).toBe(true);
+    });
+  });
+
+  it('should reject grid coordinates outside the grid', () => {
+    expect(() => generateWorld({ seed: 12345, originPlacement: { gridX: -1, gridY: 0 } })).toThrow(/originPlacement/);
+  });
+
+  it('should place a random origin deterministically', () => {
+    const world1 = generateWorld({ seed: 12345, originPlacement: 'random' });
+    const world2 = generateWorld({ seed: 12345, originPlacement: 'random' });
+
+    expect(world1.originVertex.gridX).toBe(world2.originVertex.gridX);
+    expect(world1.originVertex.gridY).toBe(world2.originVertex.gridY);
+  });
+
+  it('should mark spawn points with stable URNs and trace paths from them', () => {
+    const world = generateWorld({ seed: 12345, spawnCount: 3 });
+    const spawns = world.vertices.filter(v => v.spawnIndex).sort((a, b) => a.spawnIndex! - b.spawnIndex!);
+
+    expect(spawns.map(v => v.spawnIndex)).toEqual([1, 2, 3]);
+    expect(spawns.map(v => v.placeId)).toEqual(['flux:place:spawn:1', 'flux:place:spawn:2', 'flux:place:spawn:3']);
+
+    const path = findShortestPathFromOrigin(world.vertices, world.edges, 'origin', spawns[0].id);
+    expect(path).not.toBeNull();
+    expect(path![0]).toBe(spawns[0].id);
+    expect(path![path!.length - 1]).toBe('origin');
+  });
+});
+
+describe('Random Streams', () => {
+  it('should produce pinned values for each named stream', () => {
+    const streams = createRandomStreams(12345);
+
+    const river = streams.stream('river');
+    expect(river()).toBeCloseTo(0.5349065591581166, 12);
+    expect(river()).toBeCloseTo(0.7635988728143275, 12);
+
+    expect(streams.stream('dithering')()).toBeCloseTo(0.6866806326434016, 12);
+    expect(streams.stream('connectivity')()).toBeCloseTo(0.656343997688964, 12);
+    expect(streams.seedOf('naming')).toBe(2349818644);
+  });
+
+  it('should keep streams independent of draws made on other streams', () => {
+    const streams = createRandomStreams(12345);
+
+    const dithering = streams.stream('dithering');
+    for (let i = 0; i < 1000; i++) dithering();
+
+    const connectivity = streams.stream('connectivity');
+    expect(connectivity()).toBeCloseTo(0.656343997688964, 12);
+    expect(connectivity()).toBeCloseTo(0.5688064033165574, 12);
+  });
+
+  it('should split into deterministic child streams', () => {
+    const child1 = createRandomStreams(12345).split('river').stream('river');
+    const child2 = createRandomStreams(12345).split('river').stream('river');
+    const parent = createRandomStreams(12345).stream('river');
+
+    const values = [child1(), child1(), child1()];
+    expect([child2(), child2(), child2()]).toEqual(values);
+    expect(values[0]).not.toBe(parent());
+  });
+
+  it('should leave the river phase untouched when later phases change', () => {
+    const base = generateWorld({ seed: 12345 });
+    const tweaked = generateWorld({
+      seed: 12345,
+      ditheringStrength: 1,
+      biomes: DEFAULT_BIOMES.map(biome => ({ ...biome, connectivity: biome.connectivity + 1 }))
+    });
+
+    const cells = (world: ReturnType<typeof generateWorld>) => world.vertices.map(v => `${v.gridX}:${v.gridY}`).sort();
+    expect(cells(tweaked)).toEqual(cells(base));
+  });
+
+  it('should leave the dithering phase untouched when connectivity targets change', () => {
+    const base = generateWorld({ seed: 12345 });
+    const tweaked = generateWorld({
+      seed: 12345,
+      biomes: DEFAULT_BIOMES.map(biome => ({ ...biome, connectivity: biome.connectivity + 1 }))
+    });
+
+    expect(tweaked.ditheringStats).toEqual(base.ditheringStats);
+  });
+
+  it('should derive hash-based phases from their own named streams', () => {
+    const world = generateWorld({ seed: 12345 });
+    const streams = createRandomStreams(12345);
+
+    const elevationAt = createElevationField(streams.seedOf('elevation'), world.ecosystemBands);
+    world.vertices.forEach(vertex => expect(vertex.elevation).toBe(elevationAt(vertex.x, vertex.y)));
+    expect(world.resourceNodes).toEqual(seedResourceNodes(world.vertices, streams.seedOf('resources')));
+  });
+});
+
+describe('JSONL Import', () => {
+  it('should split byte chunks into numbered lines across chunk boundaries', () => {
+    const lines: Array<[string, number]> = [];
+    const decoder = createLineDecoder((line, lineNumber) => lines.push([line, lineNumber]));
+    const bytes = new TextEncoder().encode('{"a":1}\r\n{"b":"é"}\n\n{"c":3}');
+
+    // Split in the middle of the two-byte "é"
+    const cut = bytes.indexOf(0xc3) + 1;
+    decoder.push(bytes.slice(0, 5));
+    decoder.push(bytes.slice(5, cut));
+    decoder.push(bytes.slice(cut));
+    decoder.end();
+
+    expect(lines).toEqual([['{"a":1}', 1], ['{"b":"é"}', 2], ['', 3], ['{"c":3}', 4]]);
+  });
+
+  it('should import an exported world line by line', () => {
+    const world = generateWorld({ seed: 12345 });
+    const content = exportWorldToJSONL(world);
+
+    const importer = createWorldImporter();
+    content.split('\n').forEach((line, index) => importer.pushLine(line, index + 1));
+    const { world: imported, report } = importer.finish();
+
+    expect(report.errorCount).toBe(0);
+    expect(importer.placesParsed()).toBe(world.vertices.length);
+    expect(imported!.vertices).toHaveLength(world.vertices.length);
+    expect(imported!.originVertex.placeId).toBe('flux:place:origin');
+  });
+
+  const importLines = (lines: string[]) => {
+    const importer = createWorldImporter();
+    lines.forEach((line, index) => importer.pushLine(line, index + 1));
+    return importer.finish();
+  };
+
+  it('should collect every error with its line number and place URN', () => {
+    const world = generateWorld({ seed: 12345 });
+    const lines = exportWorldToJSONL(world).split('\n');
+    const place = JSON.parse(lines[5]);
+    lines[2] = '{not json';
+    lines[5] = JSON.stringify({ ...place, ecosystem: 'flux:eco:lava:molten' });
+
+    const { world: imported, report } = importLines(lines);
+
+    expect(imported).toBeNull();
+    expect(report.errorCount).toBeGreaterThanOrEqual(2);
+    expect(report.issues).toContainEqual(expect.objectContaining({ severity: 'error', line: 3 }));
+    expect(report.issues).toContainEqual(expect.objectContaining({
+      severity: 'error',
+      line: 6,
+      placeId: place.id,
+      message: expect.stringMatching(/ecosystem/)
+    }));
+  });
+
+  it('should warn about non-reciprocal and misdirected exits but still load', () => {
+    const opposites: Record<string, string> = {
+      north: 'south', south: 'north', east: 'west', west: 'east',
+      northeast: 'southwest', southwest: 'northeast', northwest: 'southeast', southeast: 'northwest'
+    };
+    const world = generateWorld({ seed: 12345 });
+    const lines = exportWorldToJSONL(world).split('\n');
+
+    // Flip one exit to point the opposite way from where its target lies
+    const index = lines.findIndex((line, i) => {
+      if (i === 0 || !line) return false;
+      const exits = Object.keys(JSON.parse(line).exits);
+      return exits.some(direction => !exits.includes(opposites[direction]));
+    });
+    const place = JSON.parse(lines[index]);
+    const direction = Object.keys(place.exits).find(d => !(opposites[d] in place.exits))!;
+    const { [direction]: exit, ...otherExits } = place.exits;
+    const flipped = opposites[direction];
+    lines[index] = JSON.stringify({ ...place, exits: { ...otherExits, [flipped]: { ...exit, direction: flipped } } });
+
+    const { world: imported, report } = importLines(lines);
+
+    expect(report.errorCount).toBe(0);
+    expect(imported).not.toBeNull();
+    const warnings = report.issues.filter(issue => issue.severity === 'warning' && issue.placeId === place.id);
+    expect(warnings.some(issue => /lies/.test(issue.message))).toBe(true);
+    expect(warnings.some(issue => /returns/.test(issue.message))).toBe(true);
+    expect(warnings.every(issue => issue.line === index + 1)).toBe(true);
+  });
+
+  it('should report the line number of invalid lines', () => {
+    const world = generateWorld({ seed: 12345 });
+    const lines = exportWorldToJSONL(world).split('\n');
+    lines[3] = '{not json';
+
+    expect(() => reconstructWorldFromJSONL(lines.join('\n'))).toThrow(/line 4/);
+  });
+});
+
+describe('JSONL Round Trip', () => {
+  it('should restore an equivalent world from an export', () => {
+    const world = generateWorld({ seed: 12345 });
+    const imported = reconstructWorldFromJSONL(exportWorldToJSONL(world));
+
+    expect(imported.config).toEqual(world.config);
+    expect(imported.version).toBe(world.version);
+    expect(imported.spatialMetrics).toEqual(world.spatialMetrics);
+    expect(imported.ecosystemBands).toEqual(world.ecosystemBands);
+    expect(imported.boundaryLines).toEqual(world.boundaryLines);
+    expect(imported.ditheringStats).toEqual(world.ditheringStats);
+
+    expect(imported.connectivityStats.totalVertices).toBe(world.connectivityStats.totalVertices);
+    expect(imported.connectivityStats.connectedComponents).toBe(world.connectivityStats.connectedComponents);
+    expect(imported.connectivityStats.largestComponentSize).toBe(world.connectivityStats.largestComponentSize);
+    expect(imported.connectivityStats.unreachableFromOrigin).toHaveLength(world.connectivityStats.unreachableFromOrigin.length);
+
+    // Places survive with their position, ecosystem, elevation and degree intact
+    const summarize = (vertices: WorldVertex[]) => vertices
+      .map(v => `${v.x}:${v.y}:${v.ecosystem}:${v.elevation}:${v.connections.length}:${v.isOrigin}`)
+      .sort();
+    expect(summarize(imported.vertices)).toEqual(summarize(world.vertices));
+
+    // Re-exporting yields the same names, descriptions and exits
+    const placesOf = (jsonl: string) => jsonl.split('\n').slice(1)
+      .map(line => JSON.parse(line))
+      .map(({ id, name, description, exits }) => ({ id, name, description, exits }));
+    expect(placesOf(exportWorldToJSONL(imported))).toEqual(placesOf(exportWorldToJSONL(world)));
+  });
+
+  it('should recompute layout and stats for files without them', () => {
+    const world = generateWorld({ seed: 12345 });
+    const [frontMatter, ...places] = exportWorldToJSONL(world).split('\n');
+    const { version, ts, config } = JSON.parse(frontMatter);
+    const legacy = [JSON.stringify({ version, ts, config }), ...places].join('\n');
+
+    const imported = reconstructWorldFromJSONL(legacy);
+
+    expect(imported.spatialMetrics).toEqual(world.spatialMetrics);
+    expect(imported.ecosystemBands).toEqual(world.ecosystemBands);
+    expect(imported.ditheringStats.totalVertices).toBe(world.vertices.length);
+    expect(Object.values(imported.ditheringStats.ecosystemCounts).reduce((a, b) => a + b, 0)).toBe(world.vertices.length);
+  });
+});
+
+describe('World File Schema', () => {
+  const archivedWorld = () => {
+    const file = readdirSync('worlds').find(name => name.endsWith('.jsonl'))!;
+    return readFileSync(`worlds/${file}`, 'utf8');
+  };
+
+  it('should stamp exports with the current schema version', () => {
+    const world = generateWorld({ seed: 12345 });
+    const frontMatter = JSON.parse(exportWorldToJSONL(world).split('\n')[0]);
+
+    expect(frontMatter.schemaVersion).toBe(WORLD_FILE_SCHEMA_VERSION);
+  });
+
+  it('should migrate the archived version 1 world to the current shape', () => {
+    const content = archivedWorld();
+    const frontMatter = JSON.parse(content.split('\n')[0]);
+    expect(frontMatter.schemaVersion).toBeUndefined();
+
+    const imported = reconstructWorldFromJSONL(content);
+
+    expect(imported.config.seed).toBe(frontMatter.config.seed);
+    expect(imported.config.biomes).toEqual(DEFAULT_BIOMES);
+    expect(imported.config.originPlacement).toBe('west-center');
+    expect(imported.config.spawnCount).toBe(0);
+    expect(imported.vertices.length).toBeGreaterThan(0);
+    expect(imported.vertices.filter(v => v.isOrigin)).toHaveLength(1);
+  });
+
+  it('should reject unsupported schema versions', () => {
+    const world = generateWorld({ seed: 12345 });
+    const [frontMatter, ...places] = exportWorldToJSONL(world).split('\n');
+    const withVersion = (schemaVersion: unknown) =>
+      [JSON.stringify({ ...JSON.parse(frontMatter), schemaVersion }), ...places].join('\n');
+
+    expect(() => reconstructWorldFromJSONL(withVersion(WORLD_FILE_SCHEMA_VERSION + 1)))
+      .toThrow(/Unsupported world file schema version/);
+    expect(() => reconstructWorldFromJSONL(withVersion(0))).toThrow(/Unsupported world file schema version/);
+    expect(() => reconstructWorldFromJSONL(withVersion('2'))).toThrow(/Unsupported world file schema version/);
+  });
+
+  it('should reject malformed place lines with their line number', () => {
+    const world = generateWorld({ seed: 12345 });
+    const lines = exportWorldToJSONL(world).split('\n');
+    const place = JSON.parse(lines[2]);
+    lines[2] = JSON.stringify({ ...place, coordinates: ['east', 0] });
+
+    expect(() => reconstructWorldFromJSONL(lines.join('\n'))).toThrow(/line 3.*coordinates/);
+  });
+
+  it('should validate optional place fields', () => {
+    const world = generateWorld({ seed: 12345 });
+    const place = JSON.parse(exportWorldToJSONL(world).split('\n')[1]);
+
+    expect(() => validatePlace(place)).not.toThrow();
+    expect(() => validatePlace({ ...place, poi: 'volcano' })).toThrow(/point of interest/);
+    expect(() => validatePlace({ ...place, weather: { temperature: 20 } })).toThrow(/weather/);
+    expect(() => validatePlace({ ...place, type: 'item' })).toThrow(/type must be "place"/);
+  });
+});
+
+describe('Graph Export', () => {
+  const parseXml = (content: string) => {
+    const doc = new DOMParser().parseFromString(content, 'application/xml');
+    expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+    return doc;
+  };
+
+  it('should write the river network as GraphML with node and edge attributes', () => {
+    const world = generateWorld({ seed: 12345 });
+    const doc = parseXml(exportWorldToGraphML(world));
+
+    const nodes = Array.from(doc.getElementsByTagName('node'));
+    const edges = Array.from(doc.getElementsByTagName('edge'));
+    expect(nodes).toHaveLength(world.vertices.length);
+    expect(edges).toHaveLength(world.edges.length);
+
+    const dataOf = (element: Element, key: string) =>
+      Array.from(element.getElementsByTagName('data')).find(data => data.getAttribute('key') === key)?.textContent;
+
+    const origin = nodes.find(node => node.getAttribute('id') === 'flux:place:origin')!;
+    expect(origin).toBeDefined();
+    expect(dataOf(origin, 'ecosystem')).toBe(world.originVertex.ecosystem);
+    expect(Number(dataOf(origin, 'x'))).toBe(world.originVertex.x);
+    expect(Number(dataOf(origin, 'y'))).toBe(world.originVertex.y);
+
+    // Every edge joins two exported nodes and carries flow direction and distance
+    const nodeIds = new Set(nodes.map(node => node.getAttribute('id')));
+    edges.forEach(edge => {
+      expect(nodeIds.has(edge.getAttribute('source'))).toBe(true);
+      expect(nodeIds.has(edge.getAttribute('target'))).toBe(true);
+      expect(['eastward', 'westward', 'northward', 'southward', 'diagonal']).toContain(dataOf(edge, 'flowDirection'));
+      expect(Number(dataOf(edge, 'distance'))).toBeGreaterThan(0);
+    });
+  });
+
+  it('should write the river network as GEXF with positions and attributes', () => {
+    const world = generateWorld({ seed: 12345 });
+    const doc = parseXml(exportWorldToGEXF(world));
+
+    const nodes = Array.from(doc.getElementsByTagName('node'));
+    expect(nodes).toHaveLength(world.vertices.length);
+    expect(doc.getElementsByTagName('edge')).toHaveLength(world.edges.length);
+    expect(doc.getElementsByTagName('viz:position')).toHaveLength(world.vertices.length);
+
+    const origin = nodes.find(node => node.getAttribute('id') === 'flux:place:origin')!;
+    const ecosystem = Array.from(origin.getElementsByTagName('attvalue'))
+      .find(attvalue => attvalue.getAttribute('for') === 'ecosystem');
+    expect(ecosystem?.getAttribute('value')).toBe(world.originVertex.ecosystem);
+  });
+});
+
+describe('Binary Format', () => {
+  it('should decode to the same places and front matter as the JSONL export', () => {
+    const world = generateWorld({ seed: 12345 });
+    const [frontMatterLine, ...placeLines] = exportWorldToJSONL(world).split('\n');
+    const { frontMatter, places } = decodeWorldBinary(exportWorldToBinary(world));
+
+    expect({ ...(frontMatter as object), ts: 0 }).toEqual({ ...JSON.parse(frontMatterLine), ts: 0 });
+    expect(places).toHaveLength(placeLines.length);
+
+    // Names not set by hand, and descriptions, are derived from the seed and are not stored
+    placeLines.map(line => JSON.parse(line)).forEach((expected, index) => {
+      const place = places[index];
+      expect(place.id).toBe(expected.id);
+      expect(place.ecosystem).toBe(expected.ecosystem);
+      expect(place.coordinates).toEqual(expected.coordinates);
+      expect(place.exits).toEqual(expected.exits);
+      expect((place.resources as { nodes: unknown }).nodes).toEqual(expected.resources.nodes);
+      expect(place.elevation).toBe(expected.elevation);
+      expect(place.weather).toEqual(expected.weather);
+      expect(place.poi).toBe(expected.poi);
+    });
+  });
+
+  it('should round-trip losslessly against the JSONL form', () => {
+    const world = generateWorld({ seed: 12345 });
+    const vertex = world.vertices.find(v => !v.isOrigin && !v.spawnIndex)!;
+    vertex.name = 'Hangman\'s Ford';
+    const { world: fromBinary, report } = importWorldFromBinary(exportWorldToBinary(world));
+
+    expect(report.errorCount).toBe(0);
+    expect(fromBinary).not.toBeNull();
+    expect(fromBinary!.vertices.find(v => v.placeId === getExportURN(vertex))!.name).toBe('Hangman\'s Ford');
+    // Imports rebuild edges in place order, so compare the deterministic form, which sorts exit keys
+    expect(exportWorldToJSONL(fromBinary!, { deterministic: true })).toBe(exportWorldToJSONL(world, { deterministic: true }));
+  });
+
+  it('should be much smaller than the JSONL export', () => {
+    const world = generateWorld({ seed: 12345 });
+    const jsonlSize = new TextEncoder().encode(exportWorldToJSONL(world)).length;
+
+    expect(exportWorldToBinary(world).length).toBeLessThan(jsonlSize / 4);
+  });
+
+  it('should reject data that is not a binary world', () => {
+    const jsonl = new TextEncoder().encode(exportWorldToJSONL(generateWorld({ seed: 12345 })));
+    const truncated = exportWorldToBinary(generateWorld({ seed: 12345 })).slice(0, 100);
+
+    expect(() => decodeWorldBinary(jsonl)).toThrow(/Invalid binary world/);
+    expect(() => decodeWorldBinary(truncated)).toThrow(/Invalid binary world/);
+
+    const otherVersion = exportWorldToBinary(generateWorld({ seed: 12345 }));
+    otherVersion[3] = 2;
+    expect(() => decodeWorldBinary(otherVersion)).toThrow(/Unsupported binary world format version 2/);
+  });
+});
+
+describe('Deterministic Export', () => {
+  it('should produce byte-identical JSONL for the same seed and config', () => {
+    const first = exportWorldToJSONL(generateWorld({ seed: 12345 }), { deterministic: true });
+    const second = exportWorldToJSONL(generateWorld({ seed: 12345 }), { deterministic: true });
+
+    expect(second).toBe(first);
+  });
+
+  it('should derive the timestamp from the seed unless one is given', () => {
+    const world = generateWorld({ seed: 12345 });
+    const derived = exportWorldToJSONL(world, { deterministic: true }).split('\n').map(line => JSON.parse(line));
+    const given = exportWorldToJSONL(world, { timestamp: 1700000000000 }).split('\n').map(line => JSON.parse(line));
+
+    const frontMatterTs = (seed: number) =>
+      JSON.parse(exportWorldToJSONL(generateWorld({ seed }), { deterministic: true }).split('\n')[0]).ts;
+
+    const derivedTs = derived[0].ts;
+    expect(new Date(derivedTs).getUTCFullYear()).toBe(2024);
+    expect(frontMatterTs(12345)).toBe(derivedTs);
+    expect(frontMatterTs(54321)).not.toBe(derivedTs);
+    expect(derived.slice(1).every(place => place.resources.ts === derivedTs)).toBe(true);
+    expect(given[0].ts).toBe(1700000000000);
+    expect(given.slice(1).every(place => place.resources.ts === 1700000000000)).toBe(true);
+  });
+
+  it('should write object keys in canonical order regardless of config order', () => {
+    const world = generateWorld({ seed: 12345 });
+    const reordered = {
+      ...world,
+      config: Object.fromEntries(Object.entries(world.config).reverse()) as typeof world.config
+    };
+
+    const frontMatter = exportWorldToJSONL(world, { deterministic: true }).split('\n')[0];
+    expect(exportWorldToJSONL(reordered, { deterministic: true }).split('\n')[0]).toBe(frontMatter);
+    expect(Object.keys(JSON.parse(frontMatter))).toEqual([...Object.keys(JSON.parse(frontMatter))].sort());
+  });
+
+  it('should produce byte-identical binary exports', () => {
+    const first = exportWorldToBinary(generateWorld({ seed: 12345 }), { deterministic: true });
+    const second = exportWorldToBinary(generateWorld({ seed: 12345 }), { deterministic: true });
+
+    expect(second).toEqual(first);
+  });
+});
+
+describe('World Diff', () => {
+  let jsonl: string;
+  beforeAll(() => {
+    jsonl = exportWorldToJSONL(generateWorld({ seed: 12345 }));
+  });
+
+  // Independent copies of the same world to modify
+  const loadWorld = () => reconstructWorldFromJSONL(jsonl);
+  const ordinaryVertex = (world: ReturnType<typeof loadWorld>) =>
+    world.vertices.find(vertex => !vertex.isOrigin && !vertex.spawnIndex && vertex.connections.length > 1)!;
+
+  it('should report no differences between identical worlds', () => {
+    const { diff } = diffWorldFiles(jsonl, jsonl);
+
+    expect(isWorldDiffEmpty(diff)).toBe(true);
+  });
+
+  it('should report changed ecosystems without reporting the place as added and removed', () => {
+    const before = loadWorld();
+    const after = loadWorld();
+    const vertex = ordinaryVertex(after);
+    const from = vertex.ecosystem;
+    vertex.ecosystem = DEFAULT_BIOMES.map(biome => biome.ecosystem).find(ecosystem => ecosystem !== from)!;
+
+    const diff = diffWorlds(before, after);
+
+    expect(diff.changedEcosystems).toEqual([
+      { placeId: getExportURN(vertex), coordinates: [vertex.x, vertex.y], from, to: vertex.ecosystem }
+    ]);
+    expect(diff.addedPlaces).toHaveLength(0);
+    expect(diff.removedPlaces).toHaveLength(0);
+    expect(diff.addedExits).toHaveLength(0);
+    expect(diff.removedExits).toHaveLength(0);
+  });
+
+  it('should report both exits of a removed connection', () => {
+    const before = loadWorld();
+    const after = loadWorld();
+    const edge = after.edges[0];
+    after.edges = after.edges.filter(candidate => candidate !== edge);
+
+    const diff = diffWorlds(before, after);
+    const endpoints = [edge.fromVertexId, edge.toVertexId]
+      .map(id => after.vertices.find(vertex => vertex.id === id)!)
+      .map(vertex => getExportURN(vertex));
+
+    expect(diff.removedExits).toHaveLength(2);
+    expect(diff.removedExits.map(exit => exit.placeId).sort()).toEqual([...endpoints].sort());
+    expect(diff.removedExits.map(exit => exit.to).sort()).toEqual([...endpoints].sort());
+    expect(diff.addedExits).toHaveLength(0);
+
+    // The same change read the other way round adds the exits back
+    expect(diffWorlds(after, before).addedExits).toHaveLength(2);
+  });
+
+  it('should report removed places and the exits that led to them', () => {
+    const before = loadWorld();
+    const after = loadWorld();
+    const vertex = ordinaryVertex(after);
+    const neighbours = after.edges.filter(edge => edge.fromVertexId === vertex.id || edge.toVertexId === vertex.id).length;
+    after.vertices = after.vertices.filter(candidate => candidate !== vertex);
+    after.edges = after.edges.filter(edge => edge.fromVertexId !== vertex.id && edge.toVertexId !== vertex.id);
+
+    const diff = diffWorlds(before, after);
+
+    expect(diff.removedPlaces).toEqual([{ placeId: getExportURN(vertex), coordinates: [vertex.x, vertex.y] }]);
+    expect(diff.removedExits).toHaveLength(neighbours);
+    diff.removedExits.forEach(exit => expect(exit.to).toBe(getExportURN(vertex)));
+    expect(diffWorlds(after, before).addedPlaces).toEqual(diff.removedPlaces);
+  });
+
+  it('should export the diff as JSON with a summary', () => {
+    const before = loadWorld();
+    const after = loadWorld();
+    after.edges = after.edges.slice(1);
+
+    const diff = diffWorlds(before, after);
+    const exported = JSON.parse(exportWorldDiffToJSON(diff));
+
+    expect(exported.summary).toEqual({
+      addedPlaces: 0,
+      removedPlaces: 0,
+      changedEcosystems: 0,
+      addedExits: 0,
+      removedExits: diff.removedExits.length
+    });
+    expect(exported.removedExits).toEqual(diff.removedExits);
+  });
+});
+
+describe('World Editing', () => {
+  const placesOf = (world: ReturnType<typeof generateWorld>) => new Map(
+    exportWorldToJSONL(world).split('\n').slice(1).map(line => JSON.parse(line)).map(place => [place.id, place])
+  );
+
+  const findUnconnectedNeighbours = (world: ReturnType<typeof generateWorld>) => {
+    for (const vertex of world.vertices) {
+      const neighbour = world.vertices.find(other =>
+        areVerticesAdjacent(world, vertex, other) && !vertex.connections.includes(other.id)
+      );
+      if (neighbour) return [vertex, neighbour];
+    }
+    throw new Error('No unconnected neighbours');
+  };
+
+  it('should add a connection as a pair of reciprocal exits without changing the original world', () => {
+    const world = generateWorld({ seed: 12345 });
+    const edgeCount = world.edges.length;
+    const [from, to] = findUnconnectedNeighbours(world);
+
+    const edited = addConnection(world, from.id, to.id);
+    const places = placesOf(edited);
+    const fromExits = Object.values(places.get(getExportURN(from)).exits) as Array<{ direction: string; to: string }>;
+    const toExits = Object.values(places.get(getExportURN(to)).exits) as Array<{ direction: string; to: string }>;
+
+    expect(edited.edges).toHaveLength(edgeCount + 1);
+    expect(fromExits.map(exit => exit.to)).toContain(getExportURN(to));
+    expect(toExits.map(exit => exit.to)).toContain(getExportURN(from));
+    expect(world.edges).toHaveLength(edgeCount);
+    expect(world.vertices.find(v => v.id === from.id)!.connections).not.toContain(to.id);
+  });
+
+  it('should only connect neighbouring places that are not yet connected', () => {
+    const world = generateWorld({ seed: 12345 });
+    const edge = world.edges[0];
+    const far = world.vertices.find(v => !areVerticesAdjacent(world, world.originVertex, v) && v !== world.originVertex)!;
+
+    expect(() => addConnection(world, world.originVertex.id, far.id)).toThrow(/only neighbouring places/);
+    expect(() => addConnection(world, edge.fromVertexId, edge.toVertexId)).toThrow(/already connected/);
+  });
+
+  it('should refuse a connection along a heading either place already uses', () => {
+    const world = generateWorld({ seed: 12345 });
+    const byCell = new Map(world.vertices.map(v => [`${v.gridX}:${v.gridY}`, v]));
+    const from = world.vertices.find(v => {
+      const east = byCell.get(`${v.gridX + 1}:${v.gridY}`);
+      const farEast = byCell.get(`${v.gridX + 2}:${v.gridY}`);
+      return east && farEast && !v.connections.includes(east.id) && !v.connections.includes(farEast.id);
+    })!;
+    const east = byCell.get(`${from.gridX + 1}:${from.gridY}`)!;
+    const farEast = byCell.get(`${from.gridX + 2}:${from.gridY}`)!;
+
+    // A long connection east, as hand-edited files can carry
+    const withLongExit = {
+      ...world,
+      vertices: world.vertices.map(v =>
+        v === from ? { ...v, connections: [...v.connections, farEast.id] } :
+        v === farEast ? { ...v, connections: [...v.connections, from.id] } : v
+      ),
+      edges: [...world.edges, { ...world.edges[0], id: `${from.id}-${farEast.id}`, fromVertexId: from.id, toVertexId: farEast.id }]
+    };
+
+    expect(() => addConnection(withLongExit, from.id, east.id))
+      .toThrow(new RegExp(`${from.placeId} already has an exit east`));
+    expect(() => addConnection(withLongExit, east.id, from.id))
+      .toThrow(new RegExp(`${from.placeId} already has an exit east`));
+  });
+
+  it('should refuse a diagonal that crosses an existing one', () => {
+    const world = generateWorld({ seed: 12345 });
+    const byPosition = new Map(world.vertices.map(v => [`${v.x}:${v.y}`, v]));
+    const crossing = world.edges
+      .map(edge => {
+        const a = world.vertices.find(v => v.id === edge.fromVertexId)!;
+        const b = world.vertices.find(v => v.id === edge.toVertexId)!;
+        if (a.x === b.x || a.y === b.y) return undefined;
+        return [byPosition.get(`${b.x}:${a.y}`), byPosition.get(`${a.x}:${b.y}`)];
+      })
+      .find((corners): corners is [WorldVertex, WorldVertex] =>
+        !!corners && !!corners[0] && !!corners[1] && !corners[0].connections.includes(corners[1].id)
+      )!;
+
+    expect(() => addConnection(world, crossing[0].id, crossing[1].id)).toThrow(/would cross the path/);
+  });
+
+  it('should report duplicate place URNs instead of refusing unrelated edits', () => {
+    const world = generateWorld({ seed: 12345 });
+    const [from, to] = findUnconnectedNeighbours(world);
+    expect(validateEditedWorld(addConnection(world, from.id, to.id))).toEqual([]);
+
+    const copied = world.vertices.find(v => !v.isOrigin && !v.spawnIndex)!;
+    const withDuplicate = { ...world, vertices: [...world.vertices, { ...copied, id: 'copy', connections: [] }] };
+
+    const edited = renamePlace(addConnection(withDuplicate, from.id, to.id), from.id, 'Hangman\'s Ford');
+    expect(edited.vertices.find(v => v.id === from.id)!.name).toBe('Hangman\'s Ford');
+    expect(validateEditedWorld(edited)).toEqual([
+      { severity: 'error', message: expect.stringMatching(/unique URN/), placeId: copied.placeId }
+    ]);
+  });
+
+  it('should remove both exits of a connection', () => {
+    const world = generateWorld({ seed: 12345 });
+    const edge = world.edges[0];
+    const from = world.vertices.find(v => v.id === edge.fromVertexId)!;
+    const to = world.vertices.find(v => v.id === edge.toVertexId)!;
+
+    const places = placesOf(removeConnection(world, to.id, from.id));
+    const exitTargets = (vertex: typeof from) =>
+      (Object.values(places.get(getExportURN(vertex)).exits) as Array<{ to: string }>).map(exit => exit.to);
+
+    expect(exitTargets(from)).not.toContain(getExportURN(to));
+    expect(exitTargets(to)).not.toContain(getExportURN(from));
+    expect(() => removeConnection(world, world.originVertex.id, world.originVertex.id)).toThrow(/not connected/);
+  });
+
+  it('should recompute the URN of a repainted place and keep exits pointing at it', () => {
+    const world = generateWorld({ seed: 12345 });
+    const vertex = world.vertices.find(v => !v.isOrigin && !v.spawnIndex && v.connections.length > 0)!;
+    const ecosystem = DEFAULT_BIOMES.map(biome => biome.ecosystem).find(e => e !== vertex.ecosystem)!;
+
+    const edited = setVertexEcosystem(world, vertex.id, ecosystem);
+    const repainted = edited.vertices.find(v => v.id === vertex.id)!;
+    const urn = generatePlaceURN(ecosystem, [vertex.x, vertex.y]);
+    const places = placesOf(edited);
+    const neighbour = edited.vertices.find(v => v.id === vertex.connections[0])!;
+
+    expect(repainted.placeId).toBe(urn);
+    expect(places.get(urn).ecosystem).toBe(ecosystem);
+    expect(places.has(vertex.placeId)).toBe(false);
+    expect((Object.values(places.get(getExportURN(neighbour)).exits) as Array<{ to: string }>).map(exit => exit.to)).toContain(urn);
+    expect(edited.ditheringStats.ecosystemCounts[ecosystem]).toBe((world.ditheringStats.ecosystemCounts[ecosystem] ?? 0) + 1);
+  });
+
+  it('should export hand-set names and keep them through an import', () => {
+    const world = generateWorld({ seed: 12345 });
+    const vertex = world.vertices.find(v => !v.isOrigin)!;
+
+    const renamed = renamePlace(world, vertex.id, '  Hangman\'s Ford ');
+    const imported = reconstructWorldFromJSONL(exportWorldToJSONL(renamed));
+
+    expect(placesOf(renamed).get(getExportURN(vertex)).name).toBe('Hangman\'s Ford');
+    expect(imported.vertices.find(v => v.placeId === getExportURN(vertex))!.name).toBe('Hangman\'s Ford');
+    expect(imported.vertices.filter(v => v.name !== undefined)).toHaveLength(1);
+
+    // A blank name restores the generated one
+    const restored = renamePlace(renamed, vertex.id, ' ');
+    expect(placesOf(restored).get(getExportURN(vertex)).name).toBe(placesOf(world).get(getExportURN(vertex)).name);
+  });
+});
+
+describe('Connectivity Validation', () => {
+  function createVertex(id: string, gridX: number, ecosystem: WorldVertex['ecosystem'], isOrigin = false): WorldVertex {
+    return {
+      id,
+      placeId: `flux:place:${id}` as WorldVertex['placeId'],
+      x: gridX * 300,
+      y: 0,
+      gridX,
+      gridY: 0,
+      ecosystem,
+      isOrigin,
+      connections: []
+    };
+  }
+
+  function createEdge(from: WorldVertex, to: WorldVertex): RiverEdge {
+    from.connections.push(to.id);
+    to.connections.push(from.id);
+    return {
+      id: `${from.id}-${to.id}`,
+      fromVertexId: from.id,
+      toVertexId: to.id,
+      flowDirection: 'eastward',
+      distance: 300,
+      angle: 0
+    };
+  }
+
+  it('should report a generated world as a single connected piece', () => {
+    const world = generateWorld({ seed: 12345 });
+    const stats = world.connectivityStats;
+
+    expect(stats.totalVertices).toBe(world.vertices.length);
+    expect(stats.totalEdges).toBe(world.edges.length);
+    expect(stats.connectedComponents).toBe(1);
+    expect(stats.largestComponentSize).toBe(world.vertices.length);
+    expect(stats.unreachableFromOrigin).toEqual([]);
+
+    // Average degree must agree with the vertex adjacency lists
+    const totalConnections = world.vertices.reduce((sum, v) => sum + v.connections.length, 0);
+    expect(stats.avgConnectionsPerVertex).toBeCloseTo(totalConnections / world.vertices.length, 5);
+
+    // Per-ecosystem counts must account for every vertex
+    const countedVertices = Object.values(stats.ecosystemConnectivity).reduce((sum, entry) => sum + entry.count, 0);
+    expect(countedVertices).toBe(world.vertices.length);
+  });
+
+  it('should count components and unreachable vertices in a disconnected graph', () => {
+    const origin = createVertex('origin', 0, 'flux:eco:steppe:arid', true);
+    const a = createVertex('a', 1, 'flux:eco:steppe:arid');
+    const b = createVertex('b', 2, 'flux:eco:grassland:temperate');
+    const c = createVertex('c', 3, 'flux:eco:grassland:temperate');
+    const isolated = createVertex('isolated', 5, 'flux:eco:forest:temperate');
+
+    const edges = [createEdge(origin, a), createEdge(b, c)];
+    const stats = validateConnectivity([origin, a, b, c, isolated], edges);
+
+    expect(stats.connectedComponents).toBe(3);
+    expect(stats.largestComponentSize).toBe(2);
+    expect(stats.unreachableFromOrigin.sort()).toEqual(['b', 'c', 'isolated']);
+    expect(stats.avgConnectionsPerVertex).toBeCloseTo(4 / 5, 5);
+
+    expect(stats.ecosystemConnectivity['flux:eco:steppe:arid']).toEqual({ count: 2, avgConnections: 1 });
+    expect(stats.ecosystemConnectivity['flux:eco:grassland:temperate']).toEqual({ count: 2, avgConnections: 1 });
+    expect(stats.ecosystemConnectivity['flux:eco:forest:temperate']).toEqual({ count: 1, avgConnections: 0 });
+  });
+});
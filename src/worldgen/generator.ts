@@ -12,13 +12,20 @@ import type {
   WorldVertex,
   RiverEdge,
   DitheringStats,
-  ConnectivityStats
+  ConnectivityStats,
+  BiomeDefinition
 } from './types';
-import { PURE_RATIO, TRANSITION_RATIO, ECOSYSTEM_URNS } from './types';
+import { PURE_RATIO, TRANSITION_RATIO, DEFAULT_BIOMES, DEFAULT_EASTERN_EDGE_ECOSYSTEM } from './types';
 import type { EcosystemURN } from '@flux';
 import { Direction } from '@flux';
 import type { PlaceURN } from '@flux';
-import { generatePlaceURN } from './export';
+import { generatePlaceURN, generateSpawnURN } from './export';
+import { createElevationField } from './elevation';
+import { computeSmoothedWeather } from './weather';
+import { seedResourceNodes } from './resources';
+import { placePointsOfInterest } from './landmarks';
+import { placeOrigin, placeSpawnPoints } from './spawns';
+import { createRandomStreams } from './random';
 
 // Add type definitions at the top
 interface ConnectivityState {
@@ -47,15 +54,16 @@ const DEFAULT_CONFIG: Required<WorldGenerationConfig> = {
   branchingFactor: 1.0,
   meanderingFactor: 0.5,
   ditheringStrength: 0.5,
+  biomes: [...DEFAULT_BIOMES],
+  easternEdgeEcosystem: DEFAULT_EASTERN_EDGE_ECOSYSTEM,
+  originPlacement: 'west-center',
+  spawnCount: 0,
   showZoneBoundaries: false,
   showFlowDirection: false,
   colorScheme: 'default',
   seed: Date.now()
 };
 
-// Ecosystem progression (West to East) - using the first 5 URNs
-const ECOSYSTEM_PROGRESSION: readonly EcosystemURN[] = ECOSYSTEM_URNS.slice(0, 5);
-
 /**
  * Main world generation function
  */
@@ -66,21 +74,31 @@ export function generateWorld(config: WorldGenerationConfig = {}): WorldGenerati
   // Merge config with defaults
   const fullConfig = { ...DEFAULT_CONFIG, ...config };
 
-  // Initialize random number generator
-  const rng = createSeededRNG(fullConfig.seed);
+  // Initialize one independent random stream per phase
+  const streams = createRandomStreams(fullConfig.seed);
 
   // Calculate spatial metrics
   const spatialMetrics = calculateSpatialMetrics(fullConfig);
   console.log(`📏 World dimensions: ${spatialMetrics.worldWidthMeters/1000}km × ${spatialMetrics.worldHeightMeters/1000}km`);
   console.log(`🗂️  Grid: ${spatialMetrics.gridWidth} × ${spatialMetrics.gridHeight}`);
 
-  // PHASE 1: Define ecosystem bands (20% width each)
+  // PHASE 1: Define ecosystem bands from the biome palette
   console.log('\n🏭 Phase 1: Defining ecosystem bands...');
-  const ecosystemBands = defineEcosystemBands(spatialMetrics);
+  const ecosystemBands = defineEcosystemBands(spatialMetrics, fullConfig.biomes);
+
+  // PHASE 1.5: Build the seeded elevation field, hashed from its own stream's seed
+  console.log('\n⛰️  Phase 1.5: Building elevation field...');
+  const elevationAt = createElevationField(streams.seedOf('elevation'), ecosystemBands);
 
   // PHASE 2: Generate continuous river flow with initial ecosystem assignment
   console.log('\n🌊 Phase 2: Generating continuous river flow...');
-  const { vertices, edges } = generateRiverFlow(spatialMetrics, ecosystemBands, fullConfig, rng);
+  const riverFlow = generateRiverFlow(spatialMetrics, ecosystemBands, fullConfig, streams.stream('river'), elevationAt);
+
+  // PHASE 2.2: Place the origin and any additional spawn points, hashed from the spawns stream's seed
+  console.log('\n🎯 Phase 2.2: Placing origin and spawn points...');
+  const placed = placeOrigin(riverFlow.vertices, riverFlow.edges, spatialMetrics, fullConfig.originPlacement, streams.seedOf('spawns'));
+  const vertices = placeSpawnPoints(placed.vertices, fullConfig.spawnCount);
+  const edges = placed.edges;
 
   // PHASE 2.5: Apply diagonal intersection rule (convert X patterns to squares)
   console.log('\n🔲 Phase 2.5: Applying diagonal intersection rule...');
@@ -90,24 +108,39 @@ export function generateWorld(config: WorldGenerationConfig = {}): WorldGenerati
   // PHASE 3: Apply Gaussian dithering to transition zones
   console.log('\n🎲 Phase 3: Applying Gaussian ecosystem dithering...');
   console.log(`🎲 Dithering strength: ${fullConfig.ditheringStrength} (${fullConfig.ditheringStrength === 0 ? 'no dithering' : fullConfig.ditheringStrength === 1 ? 'maximum dithering' : 'moderate dithering'})`);
-  const { ditheredVertices, ditheringStats } = applyEcosystemDithering(processedVertices, ecosystemBands, fullConfig, rng);
+  const { ditheredVertices, ditheringStats } = applyEcosystemDithering(processedVertices, ecosystemBands, fullConfig, streams.stream('dithering'));
 
   // PHASE 3.5: Adjust connectivity per ecosystem
   console.log('\n🔗 Phase 3.5: Adjusting connectivity per ecosystem...');
-  const { connectivityVertices, adjustedEdges } = adjustEcosystemConnectivity(ditheredVertices, processedEdges, rng, spatialMetrics);
+  const { connectivityVertices, adjustedEdges } = adjustEcosystemConnectivity(ditheredVertices, processedEdges, streams.stream('connectivity'), spatialMetrics, fullConfig.biomes);
 
   // PHASE 3.6: Apply eastern marsh zone
   console.log('\n🏞️  Phase 3.6: Applying eastern marsh zone...');
-  const { marshVertices } = applyEasternMarshZone(connectivityVertices);
+  const { marshVertices } = applyEasternMarshZone(connectivityVertices, fullConfig.easternEdgeEcosystem);
 
   // PHASE 3.7: Generate Place URNs after ecosystem finalization
   console.log('\n🏗️  Phase 3.7: Generating Place URNs after ecosystem finalization...');
-  const finalVertices = generatePlaceURNsAfterEcosystemFinalization(marshVertices);
+  const placedVertices = generatePlaceURNsAfterEcosystemFinalization(marshVertices);
+
+  // PHASE 3.8: Pick landmark vertices from the finished graph
+  console.log('\n📍 Phase 3.8: Placing points of interest...');
+  const finalVertices = placePointsOfInterest(placedVertices, ecosystemBands, streams.seedOf('landmarks'));
 
   // PHASE 4: Validate connectivity and ecosystem distribution
   console.log('\n✅ Phase 4: Validating connectivity and distribution...');
   const connectivityStats = validateConnectivity(finalVertices, adjustedEdges);
 
+  // PHASE 4.5: Derive baseline weather per place
+  console.log('\n🌦️  Phase 4.5: Computing baseline weather...');
+  const smoothedWeather = computeSmoothedWeather(finalVertices);
+  console.log(`🌦️  Computed weather for ${smoothedWeather.size} places`);
+
+  // PHASE 4.6: Seed resource nodes per place
+  console.log('\n⛏️  Phase 4.6: Seeding resource nodes...');
+  const resourceNodes = seedResourceNodes(finalVertices, streams.seedOf('resources'));
+  const placesWithResources = Array.from(resourceNodes.values()).filter(nodes => Object.keys(nodes).length > 0).length;
+  console.log(`⛏️  Seeded resources at ${placesWithResources} places`);
+
   // PHASE 5: Generate places and exits (placeholder for now)
   console.log('\n🏗️  Phase 5: Generating places and exits...');
   // TODO: Convert vertices to places when needed
@@ -130,6 +163,8 @@ export function generateWorld(config: WorldGenerationConfig = {}): WorldGenerati
     connectivityStats,
     originVertex: finalVertices.find(v => v.isOrigin)!,
     boundaryLines: visualizationData.boundaryLines,
+    smoothedWeather,
+    resourceNodes,
     config: fullConfig,
     generationTime,
     version: '1.0.0'
@@ -137,17 +172,22 @@ export function generateWorld(config: WorldGenerationConfig = {}): WorldGenerati
 }
 
 /**
- * PHASE 1: Define ecosystem bands (20% width each)
+ * PHASE 1: Define ecosystem bands, one per biome, sized by relative width
  */
-function defineEcosystemBands(metrics: SpatialMetrics): EcosystemBand[] {
+function defineEcosystemBands(metrics: SpatialMetrics, biomes: BiomeDefinition[]): EcosystemBand[] {
+  validateBiomes(biomes);
+
   const bands: EcosystemBand[] = [];
-  const bandWidth = metrics.worldWidthMeters / ECOSYSTEM_PROGRESSION.length;
+  const totalWidth = biomes.reduce((sum, biome) => sum + biome.width, 0);
+  let cumulativeWidth = 0;
 
-  ECOSYSTEM_PROGRESSION.forEach((ecosystem, index) => {
-    const startX = index * bandWidth;
-    const endX = (index + 1) * bandWidth;
-    const startCol = Math.floor(index * metrics.gridWidth / ECOSYSTEM_PROGRESSION.length);
-    const endCol = Math.ceil((index + 1) * metrics.gridWidth / ECOSYSTEM_PROGRESSION.length);
+  biomes.forEach(({ ecosystem, width }) => {
+    const startX = cumulativeWidth * metrics.worldWidthMeters / totalWidth;
+    const endX = (cumulativeWidth + width) * metrics.worldWidthMeters / totalWidth;
+    const startCol = Math.floor(cumulativeWidth * metrics.gridWidth / totalWidth);
+    const endCol = Math.ceil((cumulativeWidth + width) * metrics.gridWidth / totalWidth);
+    const bandWidth = endX - startX;
+    cumulativeWidth += width;
 
     // Calculate golden ratio zones
     const pureZoneWidth = bandWidth * PURE_RATIO; // 38.2%
@@ -179,6 +219,30 @@ function defineEcosystemBands(metrics: SpatialMetrics): EcosystemBand[] {
   return bands;
 }
 
+/**
+ * Reject biome palettes the band and dithering phases cannot work with
+ */
+function validateBiomes(biomes: BiomeDefinition[]): void {
+  if (!biomes || biomes.length === 0) {
+    throw new Error('Invalid biomes: at least one ecosystem is required');
+  }
+
+  const seen = new Set<EcosystemURN>();
+  for (const biome of biomes) {
+    if (seen.has(biome.ecosystem)) {
+      throw new Error(`Invalid biomes: ${biome.ecosystem} is listed more than once`);
+    }
+    seen.add(biome.ecosystem);
+
+    if (!(biome.width > 0)) {
+      throw new Error(`Invalid biomes: ${biome.ecosystem} must have a positive width (got ${biome.width})`);
+    }
+    if (!(biome.connectivity >= 0)) {
+      throw new Error(`Invalid biomes: ${biome.ecosystem} must have a non-negative connectivity target (got ${biome.connectivity})`);
+    }
+  }
+}
+
 /**
  * PHASE 2: Generate continuous river flow with initial ecosystem assignment
  */
@@ -186,7 +250,8 @@ function generateRiverFlow(
   metrics: SpatialMetrics,
   bands: EcosystemBand[],
   config: Required<WorldGenerationConfig>,
-  rng: () => number
+  rng: () => number,
+  elevationAt: (x: number, y: number) => number
 ): { vertices: WorldVertex[], edges: RiverEdge[] } {
   const vertices: WorldVertex[] = [];
   const edges: RiverEdge[] = [];
@@ -205,7 +270,8 @@ function generateRiverFlow(
     y: originWorldY,
     gridX: originGridX,
     gridY: originGridY,
-    ecosystem: ECOSYSTEM_URNS[0], // First ecosystem (steppe)
+    elevation: elevationAt(originWorldX, originWorldY),
+    ecosystem: bands[0].ecosystem, // Westernmost ecosystem
     isOrigin: true,
     connections: []
   };
@@ -220,6 +286,7 @@ function generateRiverFlow(
 
   console.log(`🌊 Starting river flow from origin at (${originGridX}, ${originGridY})`);
   console.log(`🌊 Branching factor: ${config.branchingFactor} (${config.branchingFactor === 0 ? 'no branching' : config.branchingFactor === 1 ? 'maximum branching' : 'moderate branching'})`);
+  console.log(`🌊 Meandering factor: ${config.meanderingFactor} (${config.meanderingFactor === 0 ? 'straight channels' : config.meanderingFactor === 1 ? 'maximum meandering' : 'moderate meandering'})`);
 
   // Propagate eastward column by column
   for (let currentCol = 1; currentCol < metrics.gridWidth; currentCol++) {
@@ -235,7 +302,8 @@ function generateRiverFlow(
         bands,
         config,
         rng,
-        vertexMap
+        vertexMap,
+        elevationAt
       );
 
       // Add new vertices to our collections
@@ -300,10 +368,15 @@ function generateFlowFromHead(
   bands: EcosystemBand[],
   config: Required<WorldGenerationConfig>,
   rng: () => number,
-  vertexMap: Map<string, WorldVertex>
+  vertexMap: Map<string, WorldVertex>,
+  elevationAt: (x: number, y: number) => number
 ): WorldVertex[] {
   const newVertices: WorldVertex[] = [];
   const centerY = Math.floor(metrics.gridHeight / 2);
+  const currentElevation = elevationAt(
+    metrics.placeMargin + flowHead.gridX * metrics.placeSpacing,
+    metrics.placeMargin + flowHead.gridY * metrics.placeSpacing
+  );
 
   // Generate possible flow directions with vertical bias
   const possibleMoves = [
@@ -323,6 +396,9 @@ function generateFlowFromHead(
   // Bias toward center when near boundaries
   const centerBias = Math.max(0, 0.7 - Math.min(distanceFromTop, distanceFromBottom) / 10);
 
+  // Meandering scales every move with a north/south component
+  const meanderWeight = calculateMeanderWeight(config.meanderingFactor);
+
   // Filter and weight moves based on directional bias and boundary collision handling
   const weightedMoves = possibleMoves.map(move => {
     const newY = currentY + move.dy;
@@ -340,6 +416,18 @@ function generateFlowFromHead(
       weight *= 0.6;
     }
 
+    // Apply meandering: 0 keeps channels straight, 1 makes them strongly sinuous
+    if (move.dy !== 0) {
+      weight *= meanderWeight;
+    }
+
+    // Apply downhill bias: rivers prefer to descend, and resist climbing
+    const targetElevation = elevationAt(
+      metrics.placeMargin + (flowHead.gridX + move.dx) * metrics.placeSpacing,
+      metrics.placeMargin + newY * metrics.placeSpacing
+    );
+    weight *= calculateDownhillWeight(currentElevation - targetElevation);
+
     // Apply boundary collision bias
     if (newY <= 0 || newY >= metrics.gridHeight - 1) {
       weight *= 0.1; // Strongly discourage hitting boundaries
@@ -408,8 +496,9 @@ function generateFlowFromHead(
     const newGridY = Math.max(0, Math.min(metrics.gridHeight - 1, currentY + move.dy));
     const vertexKey = getVertexKey(newGridX, newGridY);
 
-    // Skip if vertex already exists
-    if (vertexMap.has(vertexKey)) {
+    // Skip if vertex already exists, including one just created for another
+    // move that clamped to the same boundary cell
+    if (vertexMap.has(vertexKey) || newVertices.some(v => v.gridX === newGridX && v.gridY === newGridY)) {
       continue;
     }
 
@@ -426,6 +515,7 @@ function generateFlowFromHead(
       y: worldY,
       gridX: newGridX,
       gridY: newGridY,
+      elevation: elevationAt(worldX, worldY),
       ecosystem,
       isOrigin: false,
       connections: []
@@ -437,6 +527,29 @@ function generateFlowFromHead(
   return newVertices;
 }
 
+/**
+ * Map meanderingFactor (0-1) to a weight multiplier for moves that drift north/south.
+ * 0.0 = near-straight eastward channels, 0.5 = neutral (1x), 1.0 = strongly sinuous (3x)
+ */
+function calculateMeanderWeight(meanderingFactor: number): number {
+  const factor = Math.max(0, Math.min(1, meanderingFactor));
+
+  if (factor <= 0.5) {
+    // Never fully zero, so a blocked channel can still turn aside
+    return 0.02 + (1 - 0.02) * (factor / 0.5);
+  }
+
+  return 1 + 2 * ((factor - 0.5) / 0.5);
+}
+
+/**
+ * Map an elevation drop (meters, positive = downhill) to a move weight multiplier
+ */
+function calculateDownhillWeight(drop: number): number {
+  const DOWNHILL_SCALE = 300; // meters of drop per e-fold of weight
+  return Math.max(0.6, Math.min(1.6, Math.exp(drop / DOWNHILL_SCALE)));
+}
+
 /**
  * Select weighted moves based on probabilities
  */
@@ -491,7 +604,7 @@ function getVertexKey(gridX: number, gridY: number): string {
 /**
  * Determine flow direction based on angle (for eastward-flowing river)
  */
-function determineFlowDirection(angle: number): 'eastward' | 'westward' | 'northward' | 'southward' | 'diagonal' {
+export function determineFlowDirection(angle: number): 'eastward' | 'westward' | 'northward' | 'southward' | 'diagonal' {
   const normalizedAngle = ((angle % 360) + 360) % 360; // Normalize to 0-360
 
   // Cardinal directions
@@ -754,8 +867,8 @@ function applyEcosystemDithering(
 
     // Initialize ecosystem counts
   const ecosystemCounts = {} as Record<EcosystemURN, number>;
-  ECOSYSTEM_URNS.forEach(urn => {
-    ecosystemCounts[urn] = 0;
+  bands.forEach(band => {
+    ecosystemCounts[band.ecosystem] = 0;
   });
 
   // Store original ecosystems before any dithering to prevent cascading effects
@@ -817,9 +930,10 @@ function applyEcosystemDithering(
 }
 
 /**
- * PHASE 3.5: Apply eastern marsh zone - assign all vertices in easternmost column to marsh
+ * PHASE 3.5: Apply eastern marsh zone - assign all vertices in easternmost column to the
+ * configured edge ecosystem (marsh by default, skipped when null)
  */
-function applyEasternMarshZone(vertices: WorldVertex[]): {
+function applyEasternMarshZone(vertices: WorldVertex[], edgeEcosystem: EcosystemURN | null): {
   marshVertices: WorldVertex[],
   marshStats: { totalVertices: number; marshVertices: number; easternColumn: number }
 } {
@@ -827,6 +941,11 @@ function applyEasternMarshZone(vertices: WorldVertex[]): {
 
   const marshVertices: WorldVertex[] = vertices.map(vertex => ({ ...vertex }));
 
+  if (!edgeEcosystem) {
+    console.log(`🏞️  No eastern edge ecosystem configured, skipping`);
+    return { marshVertices, marshStats: { totalVertices: vertices.length, marshVertices: 0, easternColumn: -1 } };
+  }
+
   // Find the easternmost column
   const easternColumn = Math.max(...vertices.map(v => v.gridX));
 
@@ -834,7 +953,7 @@ function applyEasternMarshZone(vertices: WorldVertex[]): {
   let marshCount = 0;
   marshVertices.forEach(vertex => {
     if (vertex.gridX === easternColumn) {
-      vertex.ecosystem = ECOSYSTEM_URNS[ECOSYSTEM_URNS.length - 1];
+      vertex.ecosystem = edgeEcosystem;
       marshCount++;
     }
   });
@@ -845,7 +964,7 @@ function applyEasternMarshZone(vertices: WorldVertex[]): {
     easternColumn
   };
 
-  console.log(`🏞️  Eastern marsh zone applied: ${marshCount} vertices in column ${easternColumn} converted to marsh`);
+  console.log(`🏞️  Eastern marsh zone applied: ${marshCount} vertices in column ${easternColumn} converted to ${edgeEcosystem}`);
 
   return { marshVertices, marshStats };
 }
@@ -1062,7 +1181,7 @@ function connectivityReducer(
 /**
  * Get the cardinal direction between two vertices
  */
-function getCardinalDirection(from: WorldVertex, to: WorldVertex): Direction {
+export function getCardinalDirection(from: WorldVertex, to: WorldVertex): Direction {
   const dx = to.x - from.x;
   const dy = to.y - from.y;
 
@@ -1162,6 +1281,22 @@ function findBestNeighbor(
   return undefined;
 }
 
+/**
+ * Whether a place already has a connection along a heading
+ */
+export function hasConnectionToward(vertex: WorldVertex, direction: Direction, vertexById: Map<string, WorldVertex>): boolean {
+  return vertex.connections.some(id => getCardinalDirection(vertex, vertexById.get(id)!) === direction);
+}
+
+/**
+ * Exits are keyed by direction, so two places can only be joined along a heading
+ * neither of them already uses
+ */
+function canConnect(a: WorldVertex, b: WorldVertex, vertexById: Map<string, WorldVertex>): boolean {
+  return !hasConnectionToward(a, getCardinalDirection(a, b), vertexById) &&
+    !hasConnectionToward(b, getCardinalDirection(b, a), vertexById);
+}
+
 /**
  * Adjusts ecosystem connectivity by adding edges until targets are met
  */
@@ -1169,7 +1304,8 @@ function adjustEcosystemConnectivity(
   vertices: WorldVertex[],
   edges: RiverEdge[],
   _rng: () => number,
-  spatialMetrics: SpatialMetrics
+  spatialMetrics: SpatialMetrics,
+  biomes: BiomeDefinition[]
 ): {
   connectivityVertices: WorldVertex[],
   adjustedEdges: RiverEdge[],
@@ -1183,16 +1319,11 @@ function adjustEcosystemConnectivity(
 } {
   console.log(`🔗 Adjusting ecosystem connectivity...`);
 
-  // Target connectivity per ecosystem - using the same pattern as calculateEcosystemConnectivity
+  // Target connectivity per ecosystem, taken from the biome palette
   const TARGET_CONNECTIVITY: Record<EcosystemURN, number> = {} as Record<EcosystemURN, number>;
-
-  // Set specific targets for ecosystems used in world generation
-  TARGET_CONNECTIVITY['flux:eco:steppe:arid'] = 3.0;
-  TARGET_CONNECTIVITY['flux:eco:grassland:temperate'] = 3.0;
-  TARGET_CONNECTIVITY['flux:eco:forest:temperate'] = 2.0;
-  TARGET_CONNECTIVITY['flux:eco:mountain:arid'] = 1.5;
-  TARGET_CONNECTIVITY['flux:eco:jungle:tropical'] = 1.5;
-  TARGET_CONNECTIVITY['flux:eco:marsh:tropical'] = 1.0;
+  biomes.forEach(biome => {
+    TARGET_CONNECTIVITY[biome.ecosystem] = biome.connectivity;
+  });
 
   // Create working copies (URNs are already properly generated)
   let workingVertices = vertices.map(v => ({
@@ -1202,14 +1333,18 @@ function adjustEcosystemConnectivity(
     y: v.y,
     gridX: v.gridX,
     gridY: v.gridY,
+    elevation: v.elevation,
     ecosystem: v.ecosystem,
     isOrigin: v.isOrigin,
+    spawnIndex: v.spawnIndex,
     connections: [...v.connections],
     metadata: v.metadata
   }));
   let workingEdges = [...edges];
   let edgesAdded = 0;
 
+  const vertexById = new Map(workingVertices.map(v => [v.id, v]));
+
   // Calculate initial connectivity
   const originalConnectivity = calculateEcosystemConnectivity(workingVertices);
   console.log(`🔗 Original connectivity:`, originalConnectivity);
@@ -1240,7 +1375,8 @@ function adjustEcosystemConnectivity(
       // Find potential neighbors within the expanded radius
       const potentialNeighbors = workingVertices.filter(v =>
         v.id !== vertex.id &&
-        !vertex.connections.includes(v.id)
+        !vertex.connections.includes(v.id) &&
+        canConnect(vertex, v, vertexById)
       );
 
       // Prefer cardinal directions based on ecosystem
@@ -1606,26 +1742,111 @@ function applyGaussianDithering(
 /**
  * PHASE 4: Validate connectivity and ecosystem distribution
  */
-function validateConnectivity(vertices: WorldVertex[], edges: RiverEdge[]): ConnectivityStats {
-  console.log(`✅ TODO: Implement connectivity validation`);
+export function validateConnectivity(vertices: WorldVertex[], edges: RiverEdge[]): ConnectivityStats {
+  console.log(`✅ Validating connectivity of ${vertices.length} vertices and ${edges.length} edges...`);
 
-  // Placeholder stats
-  const connectivityStats: ConnectivityStats = {
+  // Union-find over vertex indices, with path halving and union by size
+  const indexById = new Map<string, number>();
+  vertices.forEach((vertex, index) => indexById.set(vertex.id, index));
+
+  const parent = vertices.map((_, index) => index);
+  const size = vertices.map(() => 1);
+
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  const union = (a: number, b: number) => {
+    let rootA = find(a);
+    let rootB = find(b);
+    if (rootA === rootB) return;
+    if (size[rootA] < size[rootB]) {
+      [rootA, rootB] = [rootB, rootA];
+    }
+    parent[rootB] = rootA;
+    size[rootA] += size[rootB];
+  };
+
+  // Count the distinct neighbours of each vertex as seen through the edge list
+  const neighbors = vertices.map(() => new Set<number>());
+
+  edges.forEach(edge => {
+    const fromIndex = indexById.get(edge.fromVertexId);
+    const toIndex = indexById.get(edge.toVertexId);
+
+    if (fromIndex === undefined || toIndex === undefined) {
+      console.warn(`✅ Edge ${edge.id} references a missing vertex`);
+      return;
+    }
+
+    if (fromIndex === toIndex) return;
+
+    neighbors[fromIndex].add(toIndex);
+    neighbors[toIndex].add(fromIndex);
+    union(fromIndex, toIndex);
+  });
+
+  // Tally components
+  const componentSizes = new Map<number, number>();
+  vertices.forEach((_, index) => {
+    const root = find(index);
+    componentSizes.set(root, (componentSizes.get(root) || 0) + 1);
+  });
+
+  const connectedComponents = componentSizes.size;
+  let largestComponentSize = 0;
+  componentSizes.forEach(componentSize => {
+    largestComponentSize = Math.max(largestComponentSize, componentSize);
+  });
+
+  // Everything outside the origin's component is unreachable for a spawning player
+  const originIndex = vertices.findIndex(v => v.isOrigin);
+  const originRoot = originIndex >= 0 ? find(originIndex) : -1;
+  const unreachableFromOrigin = vertices
+    .filter((_, index) => find(index) !== originRoot)
+    .map(v => v.id);
+
+  // Average degree, overall and per ecosystem
+  const totalConnections = neighbors.reduce((sum, set) => sum + set.size, 0);
+  const avgConnectionsPerVertex = vertices.length > 0 ? totalConnections / vertices.length : 0;
+
+  const ecosystemConnectivity = {} as Record<EcosystemURN, { count: number; avgConnections: number }>;
+
+  vertices.forEach((vertex, index) => {
+    if (!ecosystemConnectivity[vertex.ecosystem]) {
+      ecosystemConnectivity[vertex.ecosystem] = { count: 0, avgConnections: 0 };
+    }
+    const entry = ecosystemConnectivity[vertex.ecosystem];
+    // Accumulate the running total in avgConnections, divided out below
+    entry.avgConnections += neighbors[index].size;
+    entry.count++;
+  });
+
+  Object.values(ecosystemConnectivity).forEach(entry => {
+    entry.avgConnections = entry.count > 0 ? entry.avgConnections / entry.count : 0;
+  });
+
+  if (connectedComponents > 1) {
+    console.warn(`⚠️  Graph has ${connectedComponents} connected components (largest: ${largestComponentSize}/${vertices.length} vertices)`);
+  }
+  if (unreachableFromOrigin.length > 0) {
+    console.warn(`⚠️  ${unreachableFromOrigin.length} vertices are unreachable from the origin`);
+  }
+  console.log(`✅ Connectivity validated: ${connectedComponents} component(s), ${avgConnectionsPerVertex.toFixed(2)} avg connections per vertex`);
+
+  return {
     totalVertices: vertices.length,
     totalEdges: edges.length,
-    avgConnectionsPerVertex: 0,
-    connectedComponents: 1,
-    ecosystemConnectivity: {
-      [ECOSYSTEM_URNS[0]]: { count: 0, avgConnections: 0 }, // steppe
-      [ECOSYSTEM_URNS[1]]: { count: 0, avgConnections: 0 }, // grassland
-      [ECOSYSTEM_URNS[2]]: { count: 0, avgConnections: 0 }, // forest
-      [ECOSYSTEM_URNS[3]]: { count: 0, avgConnections: 0 }, // mountain
-      [ECOSYSTEM_URNS[4]]: { count: 0, avgConnections: 0 }, // jungle
-      [ECOSYSTEM_URNS[5]]: { count: 0, avgConnections: 0 }  // marsh
-    } as Record<EcosystemURN, { count: number; avgConnections: number }>
+    avgConnectionsPerVertex,
+    connectedComponents,
+    largestComponentSize,
+    unreachableFromOrigin,
+    ecosystemConnectivity
   };
-
-  return connectivityStats;
 }
 
 /**
@@ -1637,14 +1858,33 @@ function formatVisualizationData(
   bands: EcosystemBand[],
   _metrics: SpatialMetrics
 ) {
-  const boundaryLines = bands.flatMap(band => [
+  return { boundaryLines: computeBoundaryLines(bands) };
+}
+
+/**
+ * Band, pure-zone and transition boundary lines for the band overlay
+ */
+export function computeBoundaryLines(bands: EcosystemBand[]): WorldGenerationResult['boundaryLines'] {
+  return bands.flatMap(band => [
     { x: band.startX, ecosystem: band.ecosystem, type: 'band' as const },
     { x: band.pureZoneStart, ecosystem: band.ecosystem, type: 'pure' as const },
     { x: band.pureZoneEnd, ecosystem: band.ecosystem, type: 'pure' as const },
     { x: band.endX, ecosystem: band.ecosystem, type: 'transition' as const }
   ]);
+}
 
-  return { boundaryLines };
+/**
+ * Recompute the static world layout (spatial metrics and ecosystem bands) from a
+ * generation config, e.g. for imported worlds whose files predate storing them
+ */
+export function computeWorldLayout(config: WorldGenerationConfig): {
+  spatialMetrics: SpatialMetrics;
+  ecosystemBands: EcosystemBand[];
+} {
+  const fullConfig = { ...DEFAULT_CONFIG, ...config };
+  const spatialMetrics = calculateSpatialMetrics(fullConfig);
+  const ecosystemBands = defineEcosystemBands(spatialMetrics, fullConfig.biomes);
+  return { spatialMetrics, ecosystemBands };
 }
 
 /**
@@ -1671,36 +1911,26 @@ function calculateSpatialMetrics(config: Required<WorldGenerationConfig>): Spati
   };
 }
 
-/**
- * Create a seeded random number generator
- */
-function createSeededRNG(seed: number): () => number {
-  let state = seed;
-  return () => {
-    state = (state * 1664525 + 1013904223) % (2 ** 32);
-    return state / (2 ** 32);
-  };
-}
-
 /**
  * Find path from origin vertex to target vertex using DFS
  * Returns the path as an array of vertex IDs from origin to target
+ * Pass startVertexId to trace from a spawn point instead of the origin
  */
 export function findPathFromOrigin(
   vertices: WorldVertex[],
   edges: RiverEdge[],
-  targetVertexId: string
+  targetVertexId: string,
+  startVertexId?: string
 ): string[] | null {
   if (!vertices || vertices.length === 0) {
     console.log('🚫 No vertices provided to findPathFromOrigin');
     return null;
   }
 
-  // Find the origin vertex (should be at gridX: 0, gridY: center)
-  const originVertex = vertices.find(v => v.gridX === 0);
+  // Start from the given spawn, or the origin by default
+  const originVertex = findStartVertex(vertices, startVertexId);
   if (!originVertex) {
-    console.log('🚫 No origin vertex found (gridX === 0)');
-    console.log('Available vertices gridX range:', Math.min(...vertices.map(v => v.gridX)), 'to', Math.max(...vertices.map(v => v.gridX)));
+    console.log(`🚫 No start vertex found (${startVertexId ?? 'origin'})`);
     return null;
   }
 
@@ -1776,21 +2006,23 @@ export function findPathFromOrigin(
 
 /**
  * Find the SHORTEST path from origin to target using BFS
+ * Pass startVertexId to trace from a spawn point instead of the origin
  */
 export function findShortestPathFromOrigin(
   vertices: WorldVertex[],
   edges: RiverEdge[],
-  targetVertexId: string
+  targetVertexId: string,
+  startVertexId?: string
 ): string[] | null {
   if (!vertices || vertices.length === 0) {
     console.log('🚫 No vertices provided to findShortestPathFromOrigin');
     return null;
   }
 
-  // Find the origin vertex (should be at gridX: 0, gridY: center)
-  const originVertex = vertices.find(v => v.gridX === 0);
+  // Start from the given spawn, or the origin by default
+  const originVertex = findStartVertex(vertices, startVertexId);
   if (!originVertex) {
-    console.log('🚫 No origin vertex found (gridX === 0)');
+    console.log(`🚫 No start vertex found (${startVertexId ?? 'origin'})`);
     return null;
   }
 
@@ -1865,6 +2097,7 @@ function generatePlaceURNsAfterEcosystemFinalization(vertices: WorldVertex[]): W
   console.log('🏗️  Generating Place URNs for finalized ecosystems...');
 
   let originCount = 0;
+  let spawnCount = 0;
   let urnCount = 0;
 
   const finalVertices = vertices.map(vertex => {
@@ -1874,6 +2107,12 @@ function generatePlaceURNsAfterEcosystemFinalization(vertices: WorldVertex[]): W
         ...vertex,
         placeId: 'flux:place:origin' as PlaceURN
       };
+    } else if (vertex.spawnIndex) {
+      spawnCount++;
+      return {
+        ...vertex,
+        placeId: generateSpawnURN(vertex.spawnIndex)
+      };
     } else {
       urnCount++;
       return {
@@ -1883,7 +2122,7 @@ function generatePlaceURNsAfterEcosystemFinalization(vertices: WorldVertex[]): W
     }
   });
 
-  console.log(`🏗️  Generated ${urnCount} Place URNs + ${originCount} origin URNs`);
+  console.log(`🏗️  Generated ${urnCount} Place URNs + ${originCount} origin URNs + ${spawnCount} spawn URNs`);
   return finalVertices;
 }
 
@@ -1893,6 +2132,15 @@ function generatePlaceURNsAfterEcosystemFinalization(vertices: WorldVertex[]): W
 export function findOriginVertex(vertices: WorldVertex[]): WorldVertex | null {
   if (!vertices || vertices.length === 0) return null;
 
-  // Origin vertex should be at gridX: 0 (westernmost column)
-  return vertices.find(v => v.gridX === 0) || null;
+  return vertices.find(v => v.isOrigin) || null;
+}
+
+/**
+ * Find the vertex path tracing starts from: the given vertex, or the origin
+ */
+function findStartVertex(vertices: WorldVertex[], startVertexId?: string): WorldVertex | null {
+  if (startVertexId === undefined) {
+    return findOriginVertex(vertices);
+  }
+  return vertices.find(v => v.id === startVertexId) || null;
 }
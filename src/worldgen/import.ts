@@ -1,115 +1,213 @@
-import type { WorldGenerationResult, WorldVertex, WorldGenerationConfig, RiverEdge } from './types';
+import type {
+  WorldGenerationResult,
+  WorldVertex,
+  RiverEdge,
+  PlaceWeather,
+  ResourceNodes,
+  PointOfInterestType,
+  EcosystemBand,
+  DitheringStats,
+  SpatialMetrics,
+  ImportIssue,
+  ImportValidationReport,
+  WorldImportResult
+} from './types';
 import type { Place } from '@flux';
 import type { EcosystemURN } from '@flux';
+import type { WorldExportMetadata } from './export';
+import { validateConnectivity, computeWorldLayout, computeBoundaryLines } from './generator';
+import { WORLD_FILE_SCHEMA_VERSION, detectSchemaVersion, migrateFrontMatter, migratePlace } from './schema';
+import { ECOSYSTEM_URNS } from './types';
+import { generatePlaceTexts } from './naming';
+import { createRandomStreams } from './random';
+
+// Angle of each exit direction in degrees, as the exporter assigns them (world y increases northward)
+const DIRECTION_ANGLES: Record<string, number> = {
+  east: 0,
+  northeast: 45,
+  north: 90,
+  northwest: 135,
+  west: 180,
+  southwest: -135,
+  south: -90,
+  southeast: -45
+};
+
+const OPPOSITE_DIRECTIONS: Record<string, string> = {
+  north: 'south',
+  northeast: 'southwest',
+  east: 'west',
+  southeast: 'northwest',
+  south: 'north',
+  southwest: 'northeast',
+  west: 'east',
+  northwest: 'southeast'
+};
+
+// Exit of an imported place, resolved to the ID of the vertex it leads to
+interface ImportedExit {
+  direction: string;
+  to: string;
+}
+
+// Where each vertex came from in the file, for locating issues and checking exits
+interface ImportSource {
+  lineByVertexId: Map<string, number>;
+  exitsByVertexId: Map<string, ImportedExit[]>;
+}
+
+/**
+ * Direction an exit between two points should use, or undefined if they coincide
+ */
+function directionBetween(from: WorldVertex, to: WorldVertex): string | undefined {
+  if (from.x === to.x && from.y === to.y) return undefined;
 
-interface WorldMetadata {
-  version: string;
-  ts: number;
-  config: WorldGenerationConfig;
+  const angle = Math.round(Math.atan2(to.y - from.y, to.x - from.x) * 180 / Math.PI / 45) * 45;
+  const normalized = angle === -180 ? 180 : angle;
+  return Object.keys(DIRECTION_ANGLES).find(direction => DIRECTION_ANGLES[direction] === normalized);
 }
 
 /**
- * Validates the imported world data
+ * Validates the imported world data, collecting every issue instead of stopping at the first.
+ * Vertex issues carry the JSONL line and place URN the vertex came from.
  */
-function validateImportedWorld(world: WorldGenerationResult): void {
+function validateImportedWorld(world: WorldGenerationResult, source: ImportSource): ImportIssue[] {
+  const issues: ImportIssue[] = [];
+  const report = (severity: ImportIssue['severity'], message: string, vertex?: WorldVertex) => {
+    issues.push(vertex
+      ? { severity, message, line: source.lineByVertexId.get(vertex.id), placeId: vertex.placeId }
+      : { severity, message });
+  };
+
   // Basic structure validation
   if (!world.vertices || world.vertices.length === 0) {
-    throw new Error('Invalid world: no vertices found');
+    report('error', 'Invalid world: no vertices found');
   }
 
   if (!world.edges || world.edges.length === 0) {
-    throw new Error('Invalid world: no edges found');
+    report('error', 'Invalid world: no edges found');
   }
 
   // Critical: Origin validation for MUD server compatibility
   if (!world.originVertex) {
-    throw new Error('Invalid world: no origin vertex found - required for player spawning');
+    report('error', 'Invalid world: no origin vertex found - required for player spawning');
+  } else if (world.originVertex.placeId !== 'flux:place:origin') {
+    report('error', `Invalid world: origin vertex has incorrect placeId: ${world.originVertex.placeId} (expected: flux:place:origin)`);
   }
 
-  if (world.originVertex.placeId !== 'flux:place:origin') {
-    throw new Error(`Invalid world: origin vertex has incorrect placeId: ${world.originVertex.placeId} (expected: flux:place:origin)`);
+  // Config validation
+  if (!world.config) {
+    report('error', 'Invalid world: missing generation config');
   }
 
-  // Ensure origin place exists in vertices
-  const hasOriginPlace = world.vertices.some(v => v.placeId === 'flux:place:origin');
-  if (!hasOriginPlace) {
-    throw new Error('Invalid world: origin place (flux:place:origin) not found in vertices - required for MUD server');
+  // Version validation
+  if (!world.version) {
+    report('error', 'Invalid world: missing version');
   }
 
-  // Ecosystem validation
-  const validEcosystems = [
-    'flux:eco:steppe:arid',
-    'flux:eco:grassland:temperate',
-    'flux:eco:forest:temperate',
-    'flux:eco:mountain:arid',
-    'flux:eco:jungle:tropical',
-    'flux:eco:marsh:tropical'
+  // Ecosystem validation - the standard URNs plus any custom biome palette from the config
+  const validEcosystems: string[] = [
+    ...ECOSYSTEM_URNS,
+    ...(world.config?.biomes ?? []).map(biome => biome.ecosystem),
+    ...(world.config?.easternEdgeEcosystem ? [world.config.easternEdgeEcosystem] : [])
   ];
 
   for (const vertex of world.vertices) {
     if (!validEcosystems.includes(vertex.ecosystem)) {
-      throw new Error(`Invalid world: vertex ${vertex.id} has invalid ecosystem URN: ${vertex.ecosystem}`);
+      report('error', `Invalid ecosystem URN: ${vertex.ecosystem}`, vertex);
     }
   }
 
   // Connectivity validation
-  const vertexIds = new Set(world.vertices.map(v => v.id));
+  const verticesById = new Map(world.vertices.map(v => [v.id, v]));
   for (const vertex of world.vertices) {
-    for (const connectionId of vertex.connections) {
-      if (!vertexIds.has(connectionId)) {
-        throw new Error(`Invalid world: vertex ${vertex.id} has missing connection target: ${connectionId}`);
+    for (const exit of source.exitsByVertexId.get(vertex.id) ?? []) {
+      const target = verticesById.get(exit.to);
+      if (!target) {
+        report('error', `Exit ${exit.direction} leads to a missing place: ${exit.to}`, vertex);
+        continue;
+      }
+
+      // Exits whose direction is unknown to the exporter are left alone
+      if (!(exit.direction in DIRECTION_ANGLES)) continue;
+
+      // Direction/coordinate consistency: the exit should point the way the target lies
+      const actual = directionBetween(vertex, target);
+      if (actual !== exit.direction) {
+        report('warning', `Exit ${exit.direction} leads to ${target.placeId}, which lies ${actual ?? 'at the same coordinates'}`, vertex);
+      }
+
+      // Reciprocity: A -north-> B implies B -south-> A
+      const opposite = OPPOSITE_DIRECTIONS[exit.direction];
+      const returns = (source.exitsByVertexId.get(target.id) ?? []).filter(back => back.to === vertex.id);
+      if (returns.length === 0) {
+        report('warning', `Exit ${exit.direction} to ${target.placeId} has no return exit`, vertex);
+      } else if (!returns.some(back => back.direction === opposite)) {
+        report('warning', `Exit ${exit.direction} to ${target.placeId} returns ${returns[0].direction} instead of ${opposite}`, vertex);
       }
     }
   }
 
   // Edge validation
   for (const edge of world.edges) {
-    if (!vertexIds.has(edge.fromVertexId)) {
-      throw new Error(`Invalid world: edge ${edge.id} has missing source vertex: ${edge.fromVertexId}`);
+    if (!verticesById.has(edge.fromVertexId)) {
+      report('error', `Invalid world: edge ${edge.id} has missing source vertex: ${edge.fromVertexId}`);
     }
-    if (!vertexIds.has(edge.toVertexId)) {
-      throw new Error(`Invalid world: edge ${edge.id} has missing target vertex: ${edge.toVertexId}`);
+    if (!verticesById.has(edge.toVertexId)) {
+      report('error', `Invalid world: edge ${edge.id} has missing target vertex: ${edge.toVertexId}`);
     }
   }
 
-  // Config validation
-  if (!world.config) {
-    throw new Error('Invalid world: missing generation config');
-  }
-
-  // Version validation
-  if (!world.version) {
-    throw new Error('Invalid world: missing version');
-  }
+  return issues;
 }
 
 /**
- * Parses a JSONL file containing world data, where the first line is front matter
- * containing generation metadata.
+ * Summarize issues into a report, ordered by line
  */
-function parseJSONLFile(fileContent: string): { metadata: WorldMetadata; places: Place[] } {
-  const lines = fileContent.trim().split('\n').filter(line => line.trim());
-  if (lines.length < 2) {
-    throw new Error('Invalid JSONL file: must contain at least front matter and one place');
-  }
+function createImportReport(issues: ImportIssue[]): ImportValidationReport {
+  const sorted = [...issues].sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+  return {
+    issues: sorted,
+    errorCount: sorted.filter(issue => issue.severity === 'error').length,
+    warningCount: sorted.filter(issue => issue.severity === 'warning').length
+  };
+}
 
-  try {
-    // First line is always front matter
-    const metadata = JSON.parse(lines[0]) as WorldMetadata;
+/**
+ * Format an issue as a single line: "line N (place URN): message"
+ */
+export function formatImportIssue(issue: ImportIssue): string {
+  const location = [
+    issue.line !== undefined ? `line ${issue.line}` : '',
+    issue.placeId ? `(${issue.placeId})` : ''
+  ].filter(Boolean).join(' ');
+  return location ? `${location}: ${issue.message}` : issue.message;
+}
 
-    // Remaining lines are places
-    const places = lines.slice(1).map((line, index) => {
-      try {
-        return JSON.parse(line) as Place;
-      } catch (error) {
-        throw new Error(`Invalid JSONL line ${index + 2}: ${error instanceof Error ? error.message : String(error)}`);
-      }
-    });
+/**
+ * Spawn point number from a spawn URN (flux:place:spawn:N), or null for other places
+ */
+function parseSpawnIndex(urn: string): number | null {
+  const match = /^flux:place:spawn:(\d+)$/.exec(urn);
+  return match ? Number(match[1]) : null;
+}
 
-    return { metadata, places };
-  } catch (error) {
-    throw new Error(`Failed to parse front matter: ${error instanceof Error ? error.message : String(error)}`);
+/**
+ * Vertex ID an exit URN leads to
+ */
+function exitTargetVertexId(urn: string): string {
+  if (urn === 'flux:place:origin') {
+    return 'origin'; // Special case for origin vertex
+  }
+  const spawnIndex = parseSpawnIndex(urn);
+  if (spawnIndex !== null) {
+    return `spawn:${spawnIndex}`; // Spawn points have fixed URNs too
   }
+  const urnParts = urn.split(':');
+  if (urnParts.length !== 5) {
+    throw new Error(`Invalid exit URN format: ${urn}`);
+  }
+  return `${urnParts[3]}:${urnParts[4]}`; // Use coordinates as vertex ID
 }
 
 /**
@@ -118,14 +216,11 @@ function parseJSONLFile(fileContent: string): { metadata: WorldMetadata; places:
 function convertPlaceToWorldVertex(place: Place): WorldVertex {
   // Handle different URN patterns (origin vs regular places)
   const isOrigin = place.id === 'flux:place:origin';
-  let gridX: number, gridY: number;
-
-  // Always get coordinates from the coordinates array
-  gridX = place.coordinates[0];
-  gridY = place.coordinates[1];
+  const spawnIndex = parseSpawnIndex(place.id);
+  const [x, y] = place.coordinates;
 
-  if (!isOrigin) {
-    // Verify coordinates match URN for non-origin places
+  if (!isOrigin && spawnIndex === null) {
+    // Verify coordinates match URN for non-origin, non-spawn places
     const urnParts = place.id.split(':');
     if (urnParts.length !== 5 || urnParts[0] !== 'flux' || urnParts[1] !== 'place') {
       throw new Error(`Invalid Place ID format: ${place.id}`);
@@ -139,37 +234,40 @@ function convertPlaceToWorldVertex(place: Place): WorldVertex {
     }
 
     // Verify coordinates match
-    if (urnX !== gridX || urnY !== gridY) {
-      throw new Error(`Coordinates mismatch: URN [${urnX}, ${urnY}] vs coordinates [${gridX}, ${gridY}]`);
+    if (urnX !== x || urnY !== y) {
+      throw new Error(`Coordinates mismatch: URN [${urnX}, ${urnY}] vs coordinates [${x}, ${y}]`);
     }
   }
 
   // Extract connections from exits
-  const connections = Object.values(place.exits || {}).map(exit => {
-    // Find the vertex ID from the exit's URN
-    if (exit.to === 'flux:place:origin') {
-      return 'origin'; // Special case for origin vertex
-    }
-    const urnParts = exit.to.split(':');
-    if (urnParts.length !== 5) {
-      throw new Error(`Invalid exit URN format: ${exit.to}`);
-    }
-    return `${urnParts[3]}:${urnParts[4]}`; // Use coordinates as vertex ID
-  });
+  const connections = Object.values(place.exits || {}).map(exit => exitTargetVertexId(exit.to));
 
   return {
-    id: isOrigin ? 'origin' : `${gridX}:${gridY}`, // Use 'origin' for origin vertex
+    id: isOrigin ? 'origin' : spawnIndex !== null ? `spawn:${spawnIndex}` : `${x}:${y}`, // Use 'origin' for origin vertex
     placeId: place.id,
-    x: place.coordinates[0],
-    y: place.coordinates[1],
-    gridX,
-    gridY,
+    x,
+    y,
+    gridX: 0, // Derived from the layout by assignGridIndices once the whole file is read
+    gridY: 0,
+    elevation: (place as Place & { elevation?: number }).elevation, // Absent in worlds exported before elevation existed
     ecosystem: place.ecosystem as EcosystemURN, // Type assertion since we know Place.ecosystem is already a valid EcosystemURN
     isOrigin,
+    spawnIndex: spawnIndex ?? undefined,
+    poi: (place as Place & { poi?: PointOfInterestType }).poi,
     connections
   };
 }
 
+/**
+ * Places store their position in metres; grid indices follow from the layout
+ */
+function assignGridIndices(vertices: WorldVertex[], metrics: SpatialMetrics): void {
+  for (const vertex of vertices) {
+    vertex.gridX = Math.round((vertex.x - metrics.placeMargin) / metrics.placeSpacing);
+    vertex.gridY = Math.round((vertex.y - metrics.placeMargin) / metrics.placeSpacing);
+  }
+}
+
 /**
  * Reconstructs edges between vertices
  */
@@ -219,64 +317,266 @@ function reconstructEdges(vertices: WorldVertex[]): RiverEdge[] {
 }
 
 /**
- * Reconstructs a complete WorldGenerationResult from JSONL data
+ * Approximate dithering stats for files that predate storing them: vertices whose
+ * ecosystem differs from the band they sit in are counted as dithered
  */
-export function reconstructWorldFromJSONL(fileContent: string): WorldGenerationResult {
-  console.log('Reconstructing world from JSONL...');
+function recomputeDitheringStats(vertices: WorldVertex[], bands: EcosystemBand[]): DitheringStats {
+  const ecosystemCounts = {} as Record<EcosystemURN, number>;
+  bands.forEach(band => {
+    ecosystemCounts[band.ecosystem] = 0;
+  });
 
-  // Parse the JSONL file
-  const { metadata, places } = parseJSONLFile(fileContent);
-  console.log(`Parsed ${places.length} places from JSONL`);
+  let pureZoneVertices = 0;
+  let ditheredVertices = 0;
 
-  // Convert places to vertices
-  const vertices = places.map(convertPlaceToWorldVertex);
-  console.log(`Converted to ${vertices.length} vertices`);
+  vertices.forEach(vertex => {
+    ecosystemCounts[vertex.ecosystem] = (ecosystemCounts[vertex.ecosystem] ?? 0) + 1;
 
-  // Find origin vertex
-  const originVertex = vertices.find(v => v.isOrigin);
-  if (!originVertex) {
-    throw new Error('No origin vertex found in imported data');
-  }
+    const band = bands.find(b => vertex.x >= b.startX && vertex.x < b.endX) ?? bands[bands.length - 1];
+    if (!band) return;
+
+    if (vertex.x >= band.pureZoneStart && vertex.x <= band.pureZoneEnd) {
+      pureZoneVertices++;
+    }
+    if (vertex.ecosystem !== band.ecosystem) {
+      ditheredVertices++;
+    }
+  });
+
+  return {
+    totalVertices: vertices.length,
+    pureZoneVertices,
+    transitionZoneVertices: vertices.length - pureZoneVertices,
+    ditheredVertices,
+    ecosystemCounts
+  };
+}
+
+/**
+ * Incremental JSONL importer: feed it lines as they arrive, then finish to get the world
+ */
+export interface WorldImporter {
+  // Feed one line of the file; line numbers are 1-based
+  pushLine(line: string, lineNumber: number): void;
+  // Feed one already-parsed record, front matter first, numbered as its JSONL line would be
+  pushRecord(record: unknown, lineNumber: number): void;
+  // Number of places parsed so far
+  placesParsed(): number;
+  // Assemble and validate the world once every line has been pushed
+  finish(): WorldImportResult;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Create an importer that builds vertices line by line, where the first
+ * non-empty line is front matter containing generation metadata. Bad lines
+ * are recorded as issues and skipped so one pass reports every problem.
+ */
+export function createWorldImporter(): WorldImporter {
+  let metadata: WorldExportMetadata | null = null;
+  let hasFrontMatter = false;
+  let schemaVersion = WORLD_FILE_SCHEMA_VERSION;
+  const issues: ImportIssue[] = [];
+  const vertices: WorldVertex[] = [];
+  const source: ImportSource = { lineByVertexId: new Map(), exitsByVertexId: new Map() };
+  const smoothedWeather = new Map<string, PlaceWeather>();
+  const resourceNodes = new Map<string, ResourceNodes>();
+  let hasResources = false;
+  const namesByVertexId = new Map<string, string>();
+
+  const pushLine = (line: string, lineNumber: number) => {
+    if (!line.trim()) return;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch (error) {
+      // First line is always front matter, even when it fails to parse
+      hasFrontMatter = true;
+      issues.push({ severity: 'error', message: `Invalid JSON: ${errorMessage(error)}`, line: lineNumber });
+      return;
+    }
+
+    pushRecord(parsed, lineNumber);
+  };
+
+  const pushRecord = (parsed: unknown, lineNumber: number) => {
+    const isFrontMatter = !hasFrontMatter;
+    hasFrontMatter = true;
+
+    // Older files are migrated to the current schema
+    if (isFrontMatter) {
+      try {
+        schemaVersion = detectSchemaVersion(parsed);
+        metadata = migrateFrontMatter(parsed, schemaVersion);
+      } catch (error) {
+        issues.push({ severity: 'error', message: errorMessage(error), line: lineNumber });
+      }
+      return;
+    }
+
+    let place: Place;
+    let vertex: WorldVertex;
+    try {
+      place = migratePlace(parsed, schemaVersion);
+      vertex = convertPlaceToWorldVertex(place);
+    } catch (error) {
+      const id = (parsed as { id?: unknown } | null)?.id;
+      issues.push({
+        severity: 'error',
+        message: errorMessage(error),
+        line: lineNumber,
+        placeId: typeof id === 'string' ? id : undefined
+      });
+      return;
+    }
+
+    const firstLine = source.lineByVertexId.get(vertex.id);
+    if (firstLine !== undefined) {
+      issues.push({
+        severity: 'error',
+        message: `Duplicate place (first defined on line ${firstLine})`,
+        line: lineNumber,
+        placeId: place.id
+      });
+      return;
+    }
+
+    vertices.push(vertex);
+    source.lineByVertexId.set(vertex.id, lineNumber);
+    if (place.name) {
+      namesByVertexId.set(vertex.id, place.name);
+    }
+    source.exitsByVertexId.set(vertex.id, Object.entries(place.exits || {}).map(([direction, exit]) => ({
+      direction,
+      to: exitTargetVertexId(exit.to)
+    })));
+
+    // Restore per-place weather when the file carries it
+    const weather = (place as Place & { weather?: PlaceWeather }).weather;
+    if (weather) {
+      smoothedWeather.set(vertex.id, weather);
+    }
+
+    // Restore resource nodes; files exported before seeding carry only empty node maps
+    const nodes = (place.resources?.nodes ?? {}) as ResourceNodes;
+    resourceNodes.set(vertex.id, nodes);
+    hasResources = hasResources || Object.keys(nodes).length > 0;
+  };
+
+  const finish = (): WorldImportResult => {
+    if (!hasFrontMatter || (vertices.length === 0 && issues.length === 0)) {
+      issues.push({ severity: 'error', message: 'Invalid JSONL file: must contain at least front matter and one place' });
+    }
+    if (!metadata || vertices.length === 0) {
+      return { world: null, report: createImportReport(issues) };
+    }
+    console.log(`Parsed ${vertices.length} places from JSONL`);
+
+    // Reconstruct edges from vertex connections
+    const edges = reconstructEdges(vertices);
+    console.log(`Reconstructed ${edges.length} edges`);
+
+    // Restore layout and stats from the front matter, recomputing whatever older files lack
+    const { spatialMetrics, ecosystemBands } = metadata.spatialMetrics && metadata.ecosystemBands
+      ? { spatialMetrics: metadata.spatialMetrics, ecosystemBands: metadata.ecosystemBands }
+      : computeWorldLayout(metadata.config);
+    const ditheringStats = metadata.ditheringStats ?? recomputeDitheringStats(vertices, ecosystemBands);
+    assignGridIndices(vertices, spatialMetrics);
+
+    // Names are derived from the seed; keep only the ones edited by hand
+    if (namesByVertexId.size > 0) {
+      const placeTexts = generatePlaceTexts(vertices, createRandomStreams(metadata.config.seed ?? 0).seedOf('naming'));
+      vertices.forEach(vertex => {
+        const name = namesByVertexId.get(vertex.id);
+        if (name !== undefined && name !== placeTexts.get(vertex.id)?.name) {
+          vertex.name = name;
+        }
+      });
+    }
+
+    const world: WorldGenerationResult = {
+      vertices,
+      edges,
+      ecosystemBands,
+      spatialMetrics,
+      ditheringStats,
+      // Always recomputed: vertex IDs are reassigned on import, so stored IDs would not match
+      connectivityStats: validateConnectivity(vertices, edges),
+      // A missing origin is reported by validateImportedWorld, which rejects the world
+      originVertex: vertices.find(v => v.isOrigin) as WorldVertex,
+      boundaryLines: computeBoundaryLines(ecosystemBands),
+      smoothedWeather: smoothedWeather.size === vertices.length ? smoothedWeather : undefined,
+      resourceNodes: hasResources ? resourceNodes : undefined,
+      config: metadata.config,
+      generationTime: metadata.ts,
+      version: metadata.version
+    };
+
+    // Validate the reconstructed world
+    issues.push(...validateImportedWorld(world, source));
+
+    const report = createImportReport(issues);
+    return { world: report.errorCount === 0 ? world : null, report };
+  };
+
+  return { pushLine, pushRecord, placesParsed: () => vertices.length, finish };
+}
+
+/**
+ * Split a stream of UTF-8 byte chunks into numbered lines (1-based)
+ */
+export function createLineDecoder(onLine: (line: string, lineNumber: number) => void): {
+  push(chunk: Uint8Array): void;
+  end(): void;
+} {
+  const decoder = new TextDecoder();
+  let pending = '';
+  let lineNumber = 0;
+
+  const emitCompleteLines = (text: string) => {
+    let start = 0;
+    let newline = text.indexOf('\n');
+    while (newline !== -1) {
+      onLine(text.slice(start, newline).replace(/\r$/, ''), ++lineNumber);
+      start = newline + 1;
+      newline = text.indexOf('\n', start);
+    }
+    pending = text.slice(start);
+  };
 
-  // Reconstruct edges from vertex connections
-  const edges = reconstructEdges(vertices);
-  console.log(`Reconstructed ${edges.length} edges`);
-
-  const world: WorldGenerationResult = {
-    vertices,
-    edges,
-    ecosystemBands: [], // Not needed for visualization
-    spatialMetrics: {
-      worldWidthMeters: 0, // Not needed for visualization
-      worldHeightMeters: 0,
-      gridWidth: 0,
-      gridHeight: 0,
-      placeSpacing: 300,
-      placeMargin: 150
-    },
-    ditheringStats: {
-      totalVertices: vertices.length,
-      pureZoneVertices: 0, // Not needed for visualization
-      transitionZoneVertices: 0,
-      ditheredVertices: 0,
-      ecosystemCounts: {} as any // Not needed for visualization
-    },
-    connectivityStats: {
-      totalVertices: vertices.length,
-      totalEdges: edges.length,
-      avgConnectionsPerVertex: edges.length / vertices.length,
-      connectedComponents: 1, // Not needed for visualization
-      ecosystemConnectivity: {} as any // Not needed for visualization
-    },
-    originVertex,
-    boundaryLines: [], // Not needed for visualization
-    config: metadata.config,
-    generationTime: metadata.ts,
-    version: metadata.version
+  return {
+    push: chunk => emitCompleteLines(pending + decoder.decode(chunk, { stream: true })),
+    end: () => {
+      emitCompleteLines(pending + decoder.decode());
+      if (pending) {
+        onLine(pending.replace(/\r$/, ''), ++lineNumber);
+        pending = '';
+      }
+    }
   };
+}
 
-  // Validate the reconstructed world
-  validateImportedWorld(world);
+/**
+ * Reconstructs a world from an in-memory JSONL string
+ */
+export function reconstructWorldFromJSONL(fileContent: string): WorldGenerationResult {
+  console.log('Reconstructing world from JSONL...');
+
+  const importer = createWorldImporter();
+  fileContent.split('\n').forEach((line, index) => importer.pushLine(line, index + 1));
+  const { world, report } = importer.finish();
+
+  if (!world) {
+    const errors = report.issues.filter(issue => issue.severity === 'error');
+    throw new Error(`Invalid world file (${errors.length} errors):\n${errors.map(formatImportIssue).join('\n')}`);
+  }
+  if (report.warningCount > 0) {
+    console.warn(`Imported world with ${report.warningCount} warnings`);
+  }
 
   return world;
 }
@@ -4,24 +4,52 @@
  * Main entry point for the UI
  */
 
-export { generateWorld, findPathFromOrigin, findShortestPathFromOrigin, findOriginVertex } from './generator';
-export { exportWorldToJSONL, downloadJSONL } from './export';
-export { reconstructWorldFromJSONL } from './import';
+export { generateWorld, findPathFromOrigin, findShortestPathFromOrigin, findOriginVertex, validateConnectivity } from './generator';
+export { exportWorldToJSONL, exportWorldToGraphML, exportWorldToGEXF, downloadJSONL, downloadFile, downloadBlob } from './export';
+export { reconstructWorldFromJSONL, formatImportIssue } from './import';
+export { exportWorldToBinary, decodeWorldBinary, importWorldFromBinary } from './binary';
+export { diffWorlds, diffWorldFiles, isWorldDiffEmpty, exportWorldDiffToJSON } from './diff';
+export { addConnection, removeConnection, setVertexEcosystem, renamePlace, areVerticesAdjacent } from './editing';
+export { WORLD_FILE_SCHEMA_VERSION, validateFrontMatter, validatePlace } from './schema';
+export { computeSmoothedWeather } from './weather';
+export { seedResourceNodes, countResourceNodes } from './resources';
+export { generatePlaceTexts } from './naming';
+export { placePointsOfInterest } from './landmarks';
+export { placeOrigin, placeSpawnPoints } from './spawns';
+export { createRandomStreams, createSeededRNG, deriveStreamSeed } from './random';
+export type { RandomStreams, RandomStreamName } from './random';
+export type { PlaceText } from './naming';
+export type { WorldExportOptions } from './export';
 export type {
   WorldGenerationConfig,
   WorldGenerationResult,
   SpatialMetrics,
   EcosystemBand,
+  BiomeDefinition,
+  OriginPlacement,
+  PointOfInterestType,
   WorldVertex,
   RiverEdge,
 
   DitheringStats,
   ConnectivityStats,
+  PlaceWeather,
+  ResourceNode,
+  ResourceNodes,
   ZoneType,
   EcosystemProbability,
+  ImportIssue,
+  ImportValidationReport,
+  WorldImportResult,
+  WorldDiff,
+  PlaceDiffEntry,
+  EcosystemChange,
+  ExitDiffEntry,
 
 } from './types';
 export {
   PURE_RATIO,
-  TRANSITION_RATIO
+  TRANSITION_RATIO,
+  DEFAULT_BIOMES,
+  DEFAULT_EASTERN_EDGE_ECOSYSTEM
 } from './types';
@@ -0,0 +1,123 @@
+/**
+ * Points of Interest for World Generation
+ * Tags notable vertices (confluences, band crossings, dead-end hollows and
+ * summits) using graph topology, elevation and seeded spacing rules
+ */
+
+import type { WorldVertex, EcosystemBand, PointOfInterestType } from './types';
+import { hashLattice } from './noise';
+
+interface PointOfInterestCandidate {
+  vertex: WorldVertex;
+  type: PointOfInterestType;
+  score: number;
+  group?: string; // At most one landmark is chosen per group
+}
+
+// Selection order, and how many of each type a world may hold
+const POI_PRIORITY: PointOfInterestType[] = ['summit', 'confluence', 'band-crossing', 'hollow'];
+const POI_LIMITS: Record<PointOfInterestType, number> = {
+  summit: 3,
+  confluence: 5,
+  'band-crossing': Infinity, // Limited to one per band boundary instead
+  hollow: 4
+};
+
+const POI_MIN_SPACING = 1500; // meters between any two landmarks
+
+/**
+ * Seeded tie-breaker in [0, 1) so equal-scoring candidates vary by seed
+ */
+function jitter(vertex: WorldVertex, seed: number): number {
+  return hashLattice(vertex.gridX, vertex.gridY, seed);
+}
+
+/**
+ * Score every vertex that qualifies as a landmark of any type
+ */
+function findCandidates(
+  vertices: WorldVertex[],
+  bands: EcosystemBand[],
+  seed: number
+): PointOfInterestCandidate[] {
+  const verticesById = new Map(vertices.map(vertex => [vertex.id, vertex]));
+  const boundaries = bands.slice(0, -1).map(band => band.endX);
+  const candidates: PointOfInterestCandidate[] = [];
+
+  vertices.forEach(vertex => {
+    if (vertex.isOrigin || vertex.spawnIndex) return;
+
+    const neighbours = vertex.connections
+      .map(id => verticesById.get(id))
+      .filter((neighbour): neighbour is WorldVertex => neighbour !== undefined);
+    const elevation = vertex.elevation ?? 0;
+
+    // Summits: higher than every neighbour
+    if (vertex.elevation !== undefined && neighbours.every(n => (n.elevation ?? 0) < elevation)) {
+      candidates.push({ vertex, type: 'summit', score: elevation + jitter(vertex, seed) });
+    }
+
+    // Confluences: river branch points, busiest first
+    if (neighbours.length >= 3) {
+      candidates.push({ vertex, type: 'confluence', score: neighbours.length + jitter(vertex, seed ^ 1) });
+    }
+
+    // Hollows: dead ends, deepest below their only neighbour first
+    if (neighbours.length === 1) {
+      const drop = (neighbours[0].elevation ?? 0) - elevation;
+      candidates.push({ vertex, type: 'hollow', score: drop + jitter(vertex, seed ^ 2) });
+    }
+
+    // Band crossings: the western end of an edge that spans a band boundary
+    boundaries.forEach((boundaryX, index) => {
+      if (vertex.x < boundaryX && neighbours.some(n => n.x >= boundaryX)) {
+        candidates.push({
+          vertex,
+          type: 'band-crossing',
+          score: jitter(vertex, seed ^ 3),
+          group: `boundary:${index}`
+        });
+      }
+    });
+  });
+
+  return candidates;
+}
+
+/**
+ * Choose landmark vertices and tag them with their type.
+ * Deterministic for a given seed; draws nothing from the shared RNG.
+ */
+export function placePointsOfInterest(
+  vertices: WorldVertex[],
+  bands: EcosystemBand[],
+  seed: number
+): WorldVertex[] {
+  const candidates = findCandidates(vertices, bands, seed | 0).sort((a, b) =>
+    POI_PRIORITY.indexOf(a.type) - POI_PRIORITY.indexOf(b.type) || b.score - a.score
+  );
+
+  const chosen = new Map<string, PointOfInterestType>();
+  const chosenVertices: WorldVertex[] = [];
+  const typeCounts: Record<PointOfInterestType, number> = { summit: 0, confluence: 0, 'band-crossing': 0, hollow: 0 };
+  const usedGroups = new Set<string>();
+
+  for (const { vertex, type, group } of candidates) {
+    if (chosen.has(vertex.id)) continue;
+    if (typeCounts[type] >= POI_LIMITS[type]) continue;
+    if (group && usedGroups.has(group)) continue;
+    if (chosenVertices.some(other => Math.hypot(other.x - vertex.x, other.y - vertex.y) < POI_MIN_SPACING)) continue;
+
+    chosen.set(vertex.id, type);
+    chosenVertices.push(vertex);
+    typeCounts[type]++;
+    if (group) usedGroups.add(group);
+  }
+
+  console.log(`📍 Placed ${chosen.size} points of interest: ${POI_PRIORITY.map(type => `${typeCounts[type]} ${type}`).join(', ')}`);
+
+  return vertices.map(vertex => {
+    const poi = chosen.get(vertex.id);
+    return poi ? { ...vertex, poi } : vertex;
+  });
+}
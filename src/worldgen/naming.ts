@@ -0,0 +1,264 @@
+/**
+ * Procedural Place Text for World Generation
+ * Seeded per-biome grammars with neighbour-aware phrasing and a per-area
+ * uniqueness budget so nearby places don't share a name
+ */
+
+import type { WorldVertex, PointOfInterestType } from './types';
+import { hashLattice } from './noise';
+
+// Generated name and description for a single place
+export interface PlaceText {
+  name: string;
+  description: string;
+}
+
+// Word lists for one biome
+interface BiomeGrammar {
+  adjectives: string[];
+  nouns: string[];
+  scenes: string[]; // Description clauses, completed with location phrases
+  region: string; // How neighbours refer to this biome ("the edge of the ...")
+}
+
+const BIOME_GRAMMARS: Record<string, BiomeGrammar> = {
+  steppe: {
+    adjectives: ['Windswept', 'Arid', 'Dusty', 'Sunbaked', 'Lonely', 'Rolling', 'Pale', 'Bitter'],
+    nouns: ['Plains', 'Steppe', 'Flats', 'Expanse', 'Reach', 'Barrens', 'Scrubland', 'Tableland'],
+    scenes: [
+      'Dry grasses stretch endlessly toward the horizon',
+      'A hot wind rasps across the cracked earth',
+      'Thorny scrub clings to the sun-bleached soil',
+      'Low hills of dust and stone roll away in every direction'
+    ],
+    region: 'steppe'
+  },
+  grassland: {
+    adjectives: ['Verdant', 'Grassy', 'Golden', 'Open', 'Gentle', 'Wildflower', 'Sweeping', 'Quiet'],
+    nouns: ['Fields', 'Meadows', 'Downs', 'Pasture', 'Lea', 'Prairie', 'Heath', 'Green'],
+    scenes: [
+      'Lush grass sways gently in the breeze',
+      'Wildflowers dot a sea of waving green',
+      'Larks wheel above the knee-high grass',
+      'The meadow rises and falls in soft, open swells'
+    ],
+    region: 'grasslands'
+  },
+  forest: {
+    adjectives: ['Dense', 'Ancient', 'Shaded', 'Mossy', 'Silent', 'Tangled', 'Hollow', 'Old'],
+    nouns: ['Woods', 'Forest', 'Grove', 'Thicket', 'Wildwood', 'Copse', 'Timberland', 'Glade'],
+    scenes: [
+      'Ancient trees tower overhead, their branches forming a dense canopy',
+      'Shafts of light fall through the leaves onto a carpet of moss',
+      'Fallen trunks and ferns crowd the narrow way',
+      'The smell of damp bark and pine hangs in the still air'
+    ],
+    region: 'forest'
+  },
+  mountain: {
+    adjectives: ['Rocky', 'Craggy', 'Windy', 'Jagged', 'Stony', 'Lofty', 'Broken', 'Grey'],
+    nouns: ['Heights', 'Pass', 'Peaks', 'Ridge', 'Crags', 'Scarp', 'Saddle', 'Tor'],
+    scenes: [
+      'Jagged rocks and steep cliffs dominate the landscape',
+      'Loose scree shifts underfoot on the steep slope',
+      'A cold wind howls between the broken crags',
+      'Bare stone rises in tiers toward distant snow'
+    ],
+    region: 'mountains'
+  },
+  jungle: {
+    adjectives: ['Thick', 'Steaming', 'Tropical', 'Overgrown', 'Humid', 'Vine-choked', 'Emerald', 'Teeming'],
+    nouns: ['Jungle', 'Rainforest', 'Grove', 'Canopy', 'Tangle', 'Wilds', 'Undergrowth', 'Greenwood'],
+    scenes: [
+      'Thick vegetation and exotic plants fill every direction',
+      'Vines hang like curtains from the dripping canopy',
+      'Unseen creatures call from the steaming undergrowth',
+      'Broad leaves glisten with the last of the rain'
+    ],
+    region: 'jungle'
+  },
+  marsh: {
+    adjectives: ['Murky', 'Misty', 'Foggy', 'Sodden', 'Reedy', 'Brackish', 'Sunken', 'Still'],
+    nouns: ['Wetlands', 'Marsh', 'Swamp', 'Fen', 'Bog', 'Mire', 'Slough', 'Mudflats'],
+    scenes: [
+      'Mist hangs over the waterlogged ground',
+      'Reeds whisper above black, still water',
+      'The ground squelches and gives beneath every step',
+      'Pools of brackish water reflect a pale sky'
+    ],
+    region: 'marshes'
+  }
+};
+
+const DEFAULT_GRAMMAR: BiomeGrammar = {
+  adjectives: ['Unknown', 'Uncharted', 'Nameless'],
+  nouns: ['Region', 'Reach', 'Land'],
+  scenes: ['An unexplored region awaits'],
+  region: 'wilds'
+};
+
+// Titles and scenes for landmarks; landmark names are unique across the whole world
+const POI_GRAMMARS: Record<PointOfInterestType, { titles: string[]; scenes: string[] }> = {
+  confluence: {
+    titles: ['Confluence', 'Meeting of Waters', 'Twin Rivers', 'Braid'],
+    scenes: [
+      'Several rivers meet here in a churn of eddies and foam',
+      'Currents from many directions merge into one broad flow'
+    ]
+  },
+  'band-crossing': {
+    titles: ['Gate', 'Threshold', 'March', 'Borderland'],
+    scenes: [
+      'The land changes character abruptly here',
+      'One country gives way to another along an unmistakable line'
+    ]
+  },
+  hollow: {
+    titles: ['Hollow', 'Dell', 'Nook', 'Recess'],
+    scenes: [
+      'The path ends in a sheltered hollow, hidden from the wider land',
+      'A quiet dead end, walled in by the lie of the land'
+    ]
+  },
+  summit: {
+    titles: ['Summit', 'Peak', 'Crown', 'Spire'],
+    scenes: [
+      'From this high point the whole land lies spread below',
+      'The ground falls away on every side from this lofty perch'
+    ]
+  }
+};
+
+// Nouns used in place of the biome noun where the river branches
+const FORK_NOUNS = ['Fork', 'Ford', 'Confluence', 'Crossing'];
+
+const ORIGIN_TEXT: PlaceText = {
+  name: 'Home base',
+  description: 'The home base of the player. This is the starting point for all players.'
+};
+
+// Uniqueness budget: no repeated name within this radius, and how many draws to try first
+const NAME_UNIQUENESS_RADIUS = 1000; // meters
+const NAME_ATTEMPTS = 8;
+
+const ROMAN_NUMERALS = ['II', 'III', 'IV', 'V', 'VI', 'VII', 'VIII', 'IX', 'X'];
+
+function getGrammar(vertex: WorldVertex): BiomeGrammar {
+  return BIOME_GRAMMARS[vertex.ecosystem.split(':')[2]] ?? DEFAULT_GRAMMAR;
+}
+
+/**
+ * Seeded pick from a list, stable for a given vertex, seed and salt
+ */
+function pick<T>(items: T[], vertex: WorldVertex, seed: number, salt: number): T {
+  const roll = hashLattice(vertex.gridX, vertex.gridY, (seed ^ Math.imul(salt, 2654435761)) | 0);
+  return items[Math.floor(roll * items.length)];
+}
+
+/**
+ * Location phrases derived from the vertex's neighbours
+ */
+function describeSurroundings(vertex: WorldVertex, verticesById: Map<string, WorldVertex>, seed: number): string[] {
+  const phrases: string[] = [];
+
+  if (vertex.connections.length >= 3) {
+    phrases.push(pick(['near the river fork', 'where the river branches', 'beside a meeting of waters'], vertex, seed, 101));
+  } else if (vertex.connections.length === 1) {
+    phrases.push(pick(['where the river trail runs out', 'at the end of the river path'], vertex, seed, 102));
+  }
+
+  const biome = vertex.ecosystem.split(':')[2];
+  const foreignNeighbour = vertex.connections
+    .map(id => verticesById.get(id))
+    .find(neighbour => neighbour && neighbour.ecosystem.split(':')[2] !== biome);
+
+  if (foreignNeighbour) {
+    phrases.push(`at the edge of the ${getGrammar(foreignNeighbour).region}`);
+  }
+
+  return phrases;
+}
+
+/**
+ * Candidate name for a vertex on a given attempt
+ */
+function composeName(vertex: WorldVertex, seed: number, attempt: number): string {
+  const grammar = getGrammar(vertex);
+  const salt = attempt * 16;
+  const adjective = pick(grammar.adjectives, vertex, seed, salt + 1);
+  const nouns = vertex.connections.length >= 3 ? [...grammar.nouns, ...FORK_NOUNS] : grammar.nouns;
+  return `${adjective} ${pick(nouns, vertex, seed, salt + 2)}`;
+}
+
+/**
+ * Candidate landmark name for a vertex on a given attempt
+ */
+function composeLandmarkName(vertex: WorldVertex, poi: PointOfInterestType, seed: number, attempt: number): string {
+  const salt = attempt * 16;
+  const adjective = pick(getGrammar(vertex).adjectives, vertex, seed, salt + 3);
+  return `The ${adjective} ${pick(POI_GRAMMARS[poi].titles, vertex, seed, salt + 4)}`;
+}
+
+/**
+ * Generate names and descriptions for every vertex, keyed by vertex ID.
+ * Deterministic for a given seed; vertices are named in array order and
+ * avoid any name already used within NAME_UNIQUENESS_RADIUS. Landmarks
+ * are named first and never share a name with any other place.
+ */
+export function generatePlaceTexts(vertices: WorldVertex[], seed: number): Map<string, PlaceText> {
+  const verticesById = new Map(vertices.map(vertex => [vertex.id, vertex]));
+  const usedNames = new Map<string, WorldVertex[]>();
+  const texts = new Map<string, PlaceText>();
+
+  const isNameUsedNearby = (name: string, vertex: WorldVertex, radius: number): boolean =>
+    (usedNames.get(name) ?? []).some(other =>
+      Math.hypot(other.x - vertex.x, other.y - vertex.y) < radius
+    );
+
+  // Landmarks claim their names before ordinary places can
+  const ordered = [
+    ...vertices.filter(vertex => vertex.poi),
+    ...vertices.filter(vertex => !vertex.poi)
+  ];
+
+  ordered.forEach(vertex => {
+    if (vertex.isOrigin) {
+      texts.set(vertex.id, ORIGIN_TEXT);
+      return;
+    }
+
+    const poi = vertex.poi;
+    const radius = poi ? Infinity : NAME_UNIQUENESS_RADIUS;
+    const compose = (attempt: number) => poi
+      ? composeLandmarkName(vertex, poi, seed, attempt)
+      : composeName(vertex, seed, attempt);
+
+    let name = compose(0);
+    for (let attempt = 1; attempt < NAME_ATTEMPTS && isNameUsedNearby(name, vertex, radius); attempt++) {
+      name = compose(attempt);
+    }
+
+    // Budget exhausted - disambiguate with a numeral, then a plain counter past X
+    const baseName = name;
+    for (let i = 0; isNameUsedNearby(name, vertex, radius); i++) {
+      name = i < ROMAN_NUMERALS.length
+        ? `${baseName} ${ROMAN_NUMERALS[i]}`
+        : `${baseName} ${i + 2}`;
+    }
+
+    if (!usedNames.has(name)) {
+      usedNames.set(name, []);
+    }
+    usedNames.get(name)!.push(vertex);
+
+    const scene = pick(poi ? POI_GRAMMARS[poi].scenes : getGrammar(vertex).scenes, vertex, seed, 100);
+    const surroundings = describeSurroundings(vertex, verticesById, seed);
+    const description = surroundings.length > 0
+      ? `${scene}, ${surroundings.join(', ')}.`
+      : `${scene}.`;
+
+    texts.set(vertex.id, { name, description });
+  });
+
+  return texts;
+}
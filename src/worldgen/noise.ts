@@ -0,0 +1,37 @@
+/**
+ * Deterministic Noise Helpers for World Generation
+ * Hash-based lattice noise that never draws from the shared RNG
+ */
+
+/**
+ * Hash integer lattice coordinates to a value in [0, 1)
+ */
+export function hashLattice(ix: number, iy: number, seed: number): number {
+  let h = seed ^ Math.imul(ix, 374761393) ^ Math.imul(iy, 668265263);
+  h = Math.imul(h ^ (h >>> 13), 1274126177);
+  h ^= h >>> 16;
+  return (h >>> 0) / 2 ** 32;
+}
+
+export function smoothstep(t: number): number {
+  return t * t * (3 - 2 * t);
+}
+
+/**
+ * Single octave of 2D value noise, in [0, 1)
+ */
+export function valueNoise(x: number, y: number, seed: number): number {
+  const ix = Math.floor(x);
+  const iy = Math.floor(y);
+  const fx = smoothstep(x - ix);
+  const fy = smoothstep(y - iy);
+
+  const v00 = hashLattice(ix, iy, seed);
+  const v10 = hashLattice(ix + 1, iy, seed);
+  const v01 = hashLattice(ix, iy + 1, seed);
+  const v11 = hashLattice(ix + 1, iy + 1, seed);
+
+  const top = v00 + (v10 - v00) * fx;
+  const bottom = v01 + (v11 - v01) * fx;
+  return top + (bottom - top) * fy;
+}
@@ -0,0 +1,63 @@
+/**
+ * Seeded Random Streams for World Generation
+ * Derives an independent, named PRNG stream per phase from the master seed,
+ * so a phase drawing more or fewer numbers never shifts any other phase
+ */
+
+// Phases that draw random numbers, each from its own stream
+export type RandomStreamName =
+  'elevation' | 'river' | 'spawns' | 'dithering' | 'connectivity' | 'landmarks' | 'naming' | 'resources';
+
+export interface RandomStreams {
+  // Seed of a named stream, for hash-based phases that take a numeric seed
+  seedOf(name: RandomStreamName): number;
+  // Fresh generator over a named stream; always starts at the beginning of the stream
+  stream(name: RandomStreamName): () => number;
+  // Child set of streams derived from a named stream, for splitting a phase further
+  split(name: RandomStreamName): RandomStreams;
+}
+
+/**
+ * Mix a 32-bit integer into a well-distributed 32-bit integer (murmur3 finalizer)
+ */
+function mix32(value: number): number {
+  let h = value | 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+/**
+ * Derive the seed of a named stream from a parent seed (FNV-1a over the name)
+ */
+export function deriveStreamSeed(seed: number, name: string): number {
+  let h = mix32(seed) ^ 0x811c9dc5;
+  for (let i = 0; i < name.length; i++) {
+    h = Math.imul(h ^ name.charCodeAt(i), 16777619);
+  }
+  return mix32(h);
+}
+
+/**
+ * Mulberry32 generator: returns values in [0, 1)
+ */
+export function createSeededRNG(seed: number): () => number {
+  let state = seed | 0;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+  };
+}
+
+/**
+ * Create the set of named random streams for a master seed
+ */
+export function createRandomStreams(masterSeed: number): RandomStreams {
+  return {
+    seedOf: name => deriveStreamSeed(masterSeed, name),
+    stream: name => createSeededRNG(deriveStreamSeed(masterSeed, name)),
+    split: name => createRandomStreams(deriveStreamSeed(masterSeed, name))
+  };
+}
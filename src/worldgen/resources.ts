@@ -0,0 +1,112 @@
+/**
+ * Resource Node Seeding for World Generation
+ * Places ecosystem-specific resource nodes using seeded density and clustering
+ */
+
+import type { WorldVertex, ResourceNodes } from './types';
+import { hashLattice, valueNoise } from './noise';
+
+// How a single resource is distributed within a biome
+interface ResourceDistribution {
+  resource: string;
+  density: number; // Mean share of places carrying the resource
+  clustering: number; // 0 = uniform scatter, 1 = strongly clumped
+  quantity: [number, number]; // Inclusive min/max units per node
+}
+
+// Resource distributions per biome
+const BIOME_RESOURCES: Record<string, ResourceDistribution[]> = {
+  steppe: [
+    { resource: 'flint', density: 0.25, clustering: 0.6, quantity: [5, 20] },
+    { resource: 'salt', density: 0.1, clustering: 0.8, quantity: [10, 40] }
+  ],
+  grassland: [
+    { resource: 'herbs', density: 0.35, clustering: 0.3, quantity: [5, 15] },
+    { resource: 'clay', density: 0.15, clustering: 0.7, quantity: [10, 30] }
+  ],
+  forest: [
+    { resource: 'timber', density: 0.6, clustering: 0.4, quantity: [20, 60] },
+    { resource: 'mushrooms', density: 0.2, clustering: 0.5, quantity: [3, 12] }
+  ],
+  mountain: [
+    { resource: 'ore', density: 0.3, clustering: 0.8, quantity: [15, 50] },
+    { resource: 'stone', density: 0.5, clustering: 0.3, quantity: [20, 80] }
+  ],
+  jungle: [
+    { resource: 'hardwood', density: 0.4, clustering: 0.5, quantity: [15, 45] },
+    { resource: 'fruit', density: 0.3, clustering: 0.4, quantity: [5, 20] }
+  ],
+  marsh: [
+    { resource: 'reeds', density: 0.5, clustering: 0.4, quantity: [10, 40] },
+    { resource: 'peat', density: 0.2, clustering: 0.7, quantity: [10, 30] }
+  ]
+};
+
+const CLUSTER_WAVELENGTH = 2000; // meters
+
+/**
+ * Stable per-resource salt so each resource gets its own cluster field
+ */
+function resourceSalt(resource: string): number {
+  let h = 0;
+  for (let i = 0; i < resource.length; i++) {
+    h = Math.imul(h ^ resource.charCodeAt(i), 16777619);
+  }
+  return h;
+}
+
+/**
+ * Seed resource nodes for every vertex, keyed by vertex ID.
+ * The same seed and vertices always yield the same nodes. Draws nothing from the shared RNG.
+ */
+export function seedResourceNodes(vertices: WorldVertex[], seed: number): Map<string, ResourceNodes> {
+  const nodesByVertex = new Map<string, ResourceNodes>();
+
+  vertices.forEach(vertex => {
+    const biome = vertex.ecosystem.split(':')[2];
+    const distributions = BIOME_RESOURCES[biome] ?? [];
+    const nodes: ResourceNodes = {};
+
+    for (const { resource, density, clustering, quantity } of distributions) {
+      const salt = (seed | 0) ^ resourceSalt(resource);
+
+      // Cluster field in [0, 1); scaled so the mean presence equals the density
+      const cluster = valueNoise(vertex.x / CLUSTER_WAVELENGTH, vertex.y / CLUSTER_WAVELENGTH, salt);
+      const presence = density * (1 - clustering + clustering * 2 * cluster);
+
+      if (hashLattice(vertex.gridX, vertex.gridY, salt) >= presence) continue;
+
+      // Richer deposits toward the heart of a cluster
+      const [min, max] = quantity;
+      const roll = hashLattice(vertex.gridY, vertex.gridX, salt ^ 0x5bd1e995);
+      nodes[resource] = {
+        quantity: min + Math.floor((roll + cluster) / 2 * (max - min + 1))
+      };
+    }
+
+    nodesByVertex.set(vertex.id, nodes);
+  });
+
+  return nodesByVertex;
+}
+
+/**
+ * Tally places and total quantity per resource, for balancing
+ */
+export function countResourceNodes(
+  nodesByVertex: Map<string, ResourceNodes>
+): Record<string, { places: number; quantity: number }> {
+  const counts: Record<string, { places: number; quantity: number }> = {};
+
+  nodesByVertex.forEach(nodes => {
+    Object.entries(nodes).forEach(([resource, node]) => {
+      if (!counts[resource]) {
+        counts[resource] = { places: 0, quantity: 0 };
+      }
+      counts[resource].places += 1;
+      counts[resource].quantity += node.quantity;
+    });
+  });
+
+  return counts;
+}
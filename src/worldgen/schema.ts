@@ -0,0 +1,181 @@
+/**
+ * World File Schema
+ * Versioning, runtime validation and migrations for exported JSONL world files
+ *
+ * Schema history:
+ *   1 - Front matter { version, ts, config }; no schemaVersion field
+ *   2 - Front matter adds schemaVersion, layout and stats; config lists every generation option
+ */
+
+import type { Place } from '@flux';
+import type { WorldExportMetadata } from './export';
+import type { PointOfInterestType } from './types';
+import { DEFAULT_BIOMES, DEFAULT_EASTERN_EDGE_ECOSYSTEM } from './types';
+
+export const WORLD_FILE_SCHEMA_VERSION = 2;
+
+type JsonObject = Record<string, unknown>;
+
+// Upgrades one schema version to the next
+interface Migration {
+  frontMatter(frontMatter: JsonObject): JsonObject;
+  place(place: JsonObject): JsonObject;
+}
+
+// MIGRATIONS[n] upgrades version n to version n + 1
+const MIGRATIONS: Record<number, Migration> = {
+  1: {
+    // Version 1 configs predate these options; pin the values those worlds were generated with
+    frontMatter: frontMatter => ({
+      ...frontMatter,
+      schemaVersion: 2,
+      config: {
+        biomes: DEFAULT_BIOMES.map(biome => ({ ...biome })),
+        easternEdgeEcosystem: DEFAULT_EASTERN_EDGE_ECOSYSTEM,
+        originPlacement: 'west-center',
+        spawnCount: 0,
+        ...(frontMatter.config as JsonObject)
+      }
+    }),
+    place: place => place
+  }
+};
+
+const POI_TYPES: readonly PointOfInterestType[] = ['confluence', 'band-crossing', 'hollow', 'summit'];
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Schema version a front matter object was written with
+ */
+export function detectSchemaVersion(frontMatter: unknown): number {
+  if (!isObject(frontMatter)) {
+    throw new Error('Invalid front matter: expected a JSON object');
+  }
+
+  // Files written before schema versioning carry no schemaVersion field
+  const schemaVersion = frontMatter.schemaVersion ?? 1;
+  if (typeof schemaVersion !== 'number' || !Number.isInteger(schemaVersion) || schemaVersion < 1) {
+    throw new Error(`Unsupported world file schema version: ${JSON.stringify(schemaVersion)}`);
+  }
+  if (schemaVersion > WORLD_FILE_SCHEMA_VERSION) {
+    throw new Error(
+      `Unsupported world file schema version ${schemaVersion}: this tool reads versions up to ${WORLD_FILE_SCHEMA_VERSION}`
+    );
+  }
+  return schemaVersion;
+}
+
+/**
+ * Validate the front matter against the current schema
+ */
+export function validateFrontMatter(frontMatter: unknown): WorldExportMetadata {
+  if (!isObject(frontMatter)) {
+    throw new Error('Invalid front matter: expected a JSON object');
+  }
+  if (frontMatter.schemaVersion !== WORLD_FILE_SCHEMA_VERSION) {
+    throw new Error(`Invalid front matter: schemaVersion must be ${WORLD_FILE_SCHEMA_VERSION}`);
+  }
+  if (typeof frontMatter.version !== 'string') {
+    throw new Error('Invalid front matter: missing version');
+  }
+  if (!isFiniteNumber(frontMatter.ts)) {
+    throw new Error('Invalid front matter: missing timestamp (ts)');
+  }
+  if (!isObject(frontMatter.config)) {
+    throw new Error('Invalid front matter: missing generation config');
+  }
+  for (const key of ['spatialMetrics', 'ditheringStats', 'connectivityStats'] as const) {
+    if (frontMatter[key] !== undefined && !isObject(frontMatter[key])) {
+      throw new Error(`Invalid front matter: ${key} must be an object`);
+    }
+  }
+  if (frontMatter.ecosystemBands !== undefined && !Array.isArray(frontMatter.ecosystemBands)) {
+    throw new Error('Invalid front matter: ecosystemBands must be an array');
+  }
+
+  return frontMatter as unknown as WorldExportMetadata;
+}
+
+/**
+ * Validate a place line against the current schema
+ */
+export function validatePlace(place: unknown): Place {
+  if (!isObject(place)) {
+    throw new Error('Invalid place: expected a JSON object');
+  }
+  if (place.type !== 'place') {
+    throw new Error(`Invalid place: type must be "place" (got ${JSON.stringify(place.type)})`);
+  }
+  if (typeof place.id !== 'string' || !place.id.startsWith('flux:place:')) {
+    throw new Error(`Invalid place: id must be a place URN (got ${JSON.stringify(place.id)})`);
+  }
+
+  const id = place.id;
+  if (typeof place.name !== 'string' || typeof place.description !== 'string') {
+    throw new Error(`Invalid place ${id}: name and description must be strings`);
+  }
+  if (typeof place.ecosystem !== 'string' || !place.ecosystem.startsWith('flux:eco:')) {
+    throw new Error(`Invalid place ${id}: ecosystem must be an ecosystem URN`);
+  }
+  if (!Array.isArray(place.coordinates) || place.coordinates.length !== 2 || !place.coordinates.every(isFiniteNumber)) {
+    throw new Error(`Invalid place ${id}: coordinates must be a pair of numbers`);
+  }
+  if (!isObject(place.exits)) {
+    throw new Error(`Invalid place ${id}: exits must be an object`);
+  }
+  for (const [direction, exit] of Object.entries(place.exits)) {
+    if (!isObject(exit) || typeof exit.to !== 'string') {
+      throw new Error(`Invalid place ${id}: exit ${direction} must have a destination URN`);
+    }
+  }
+  if (place.resources !== undefined && (!isObject(place.resources) || !isObject(place.resources.nodes))) {
+    throw new Error(`Invalid place ${id}: resources must have a nodes object`);
+  }
+  if (place.elevation !== undefined && !isFiniteNumber(place.elevation)) {
+    throw new Error(`Invalid place ${id}: elevation must be a number`);
+  }
+  if (place.weather !== undefined) {
+    const weather = place.weather;
+    if (!isObject(weather) || ![weather.temperature, weather.pressure, weather.humidity].every(isFiniteNumber)) {
+      throw new Error(`Invalid place ${id}: weather must have numeric temperature, pressure and humidity`);
+    }
+  }
+  if (place.poi !== undefined && !POI_TYPES.includes(place.poi as PointOfInterestType)) {
+    throw new Error(`Invalid place ${id}: unknown point of interest type ${JSON.stringify(place.poi)}`);
+  }
+
+  return place as unknown as Place;
+}
+
+/**
+ * Upgrade front matter from its schema version to the current one, then validate it
+ */
+export function migrateFrontMatter(frontMatter: unknown, fromVersion: number): WorldExportMetadata {
+  let current = frontMatter as JsonObject;
+  for (let version = fromVersion; version < WORLD_FILE_SCHEMA_VERSION; version++) {
+    current = MIGRATIONS[version].frontMatter(current);
+  }
+  return validateFrontMatter(current);
+}
+
+/**
+ * Upgrade a place line from its file's schema version to the current one, then validate it
+ */
+export function migratePlace(place: unknown, fromVersion: number): Place {
+  if (!isObject(place)) {
+    throw new Error('Invalid place: expected a JSON object');
+  }
+
+  let current = place;
+  for (let version = fromVersion; version < WORLD_FILE_SCHEMA_VERSION; version++) {
+    current = MIGRATIONS[version].place(current);
+  }
+  return validatePlace(current);
+}
@@ -0,0 +1,145 @@
+/**
+ * Origin Placement and Spawn Points for World Generation
+ * Moves the origin to the requested grid position and marks additional,
+ * well-separated spawn vertices
+ */
+
+import type { WorldVertex, RiverEdge, SpatialMetrics, OriginPlacement } from './types';
+import { hashLattice } from './noise';
+
+/**
+ * Grid position the origin should move to, or null to keep the river source
+ */
+function resolveOriginTarget(
+  placement: OriginPlacement,
+  metrics: SpatialMetrics,
+  seed: number
+): { gridX: number; gridY: number } | null {
+  if (placement === 'west-center') {
+    return null;
+  }
+
+  if (placement === 'random') {
+    return {
+      gridX: Math.floor(hashLattice(1, 0, seed | 0) * metrics.gridWidth),
+      gridY: Math.floor(hashLattice(0, 1, seed | 0) * metrics.gridHeight)
+    };
+  }
+
+  const { gridX, gridY } = placement;
+  if (!Number.isInteger(gridX) || !Number.isInteger(gridY) ||
+      gridX < 0 || gridX >= metrics.gridWidth || gridY < 0 || gridY >= metrics.gridHeight) {
+    throw new Error(
+      `Invalid originPlacement: grid coordinates (${gridX}, ${gridY}) are outside the ${metrics.gridWidth} × ${metrics.gridHeight} grid`
+    );
+  }
+  return { gridX, gridY };
+}
+
+/**
+ * Rename vertex IDs throughout the vertex and edge lists
+ */
+function renameVertices(
+  vertices: WorldVertex[],
+  edges: RiverEdge[],
+  renames: Map<string, string>
+): { vertices: WorldVertex[]; edges: RiverEdge[] } {
+  const rename = (id: string) => renames.get(id) ?? id;
+
+  return {
+    vertices: vertices.map(vertex => ({
+      ...vertex,
+      id: rename(vertex.id),
+      connections: vertex.connections.map(rename)
+    })),
+    edges: edges.map(edge => {
+      const fromVertexId = rename(edge.fromVertexId);
+      const toVertexId = rename(edge.toVertexId);
+      return { ...edge, id: `${fromVertexId}-${toVertexId}`, fromVertexId, toVertexId };
+    })
+  };
+}
+
+/**
+ * Move the origin to the vertex nearest the requested position. The vertex
+ * that becomes the origin takes the 'origin' ID; the old origin gets a regular one.
+ */
+export function placeOrigin(
+  vertices: WorldVertex[],
+  edges: RiverEdge[],
+  metrics: SpatialMetrics,
+  placement: OriginPlacement,
+  seed: number
+): { vertices: WorldVertex[]; edges: RiverEdge[] } {
+  const target = resolveOriginTarget(placement, metrics, seed);
+  const currentOrigin = vertices.find(v => v.isOrigin);
+  if (!target || !currentOrigin) {
+    return { vertices, edges };
+  }
+
+  let nearest = currentOrigin;
+  let nearestDistance = Infinity;
+  for (const vertex of vertices) {
+    const distance = Math.hypot(vertex.gridX - target.gridX, vertex.gridY - target.gridY);
+    if (distance < nearestDistance) {
+      nearest = vertex;
+      nearestDistance = distance;
+    }
+  }
+
+  if (nearest.id === currentOrigin.id) {
+    return { vertices, edges };
+  }
+
+  console.log(`🎯 Moving origin to (${nearest.gridX}, ${nearest.gridY})`);
+
+  const renames = new Map([
+    [currentOrigin.id, `v${currentOrigin.gridX}-${currentOrigin.gridY}`],
+    [nearest.id, 'origin']
+  ]);
+  const renamed = renameVertices(vertices, edges, renames);
+
+  return {
+    vertices: renamed.vertices.map(vertex => ({ ...vertex, isOrigin: vertex.id === 'origin' })),
+    edges: renamed.edges
+  };
+}
+
+/**
+ * Mark spawnCount additional spawn vertices, each as far as possible from
+ * the origin and every spawn chosen before it (farthest-point sampling)
+ */
+export function placeSpawnPoints(vertices: WorldVertex[], spawnCount: number): WorldVertex[] {
+  const origin = vertices.find(v => v.isOrigin);
+  if (!origin || spawnCount <= 0) {
+    return vertices;
+  }
+
+  const chosen: WorldVertex[] = [origin];
+  const spawnIndexById = new Map<string, number>();
+
+  for (let spawnIndex = 1; spawnIndex <= spawnCount; spawnIndex++) {
+    let best: WorldVertex | null = null;
+    let bestDistance = 0;
+
+    for (const vertex of vertices) {
+      if (vertex.isOrigin || spawnIndexById.has(vertex.id)) continue;
+      const distance = Math.min(...chosen.map(other => Math.hypot(other.x - vertex.x, other.y - vertex.y)));
+      if (distance > bestDistance) {
+        best = vertex;
+        bestDistance = distance;
+      }
+    }
+
+    if (!best) break;
+    chosen.push(best);
+    spawnIndexById.set(best.id, spawnIndex);
+  }
+
+  console.log(`🎯 Marked ${spawnIndexById.size} additional spawn points`);
+
+  return vertices.map(vertex => {
+    const spawnIndex = spawnIndexById.get(vertex.id);
+    return spawnIndex ? { ...vertex, spawnIndex } : vertex;
+  });
+}
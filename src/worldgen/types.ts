@@ -19,6 +19,25 @@ export const ECOSYSTEM_URNS = [
   'flux:eco:marsh:tropical'
 ] as const satisfies readonly EcosystemURN[];
 
+// Biome palette entry - one ecosystem band in the West to East progression
+export interface BiomeDefinition {
+  ecosystem: EcosystemURN;
+  width: number; // Relative band width (normalized against the other entries)
+  connectivity: number; // Target average connections per vertex
+}
+
+// Default palette: the first five URNs at equal widths
+export const DEFAULT_BIOMES: readonly BiomeDefinition[] = [
+  { ecosystem: 'flux:eco:steppe:arid', width: 1, connectivity: 3.0 },
+  { ecosystem: 'flux:eco:grassland:temperate', width: 1, connectivity: 3.0 },
+  { ecosystem: 'flux:eco:forest:temperate', width: 1, connectivity: 2.0 },
+  { ecosystem: 'flux:eco:mountain:arid', width: 1, connectivity: 1.5 },
+  { ecosystem: 'flux:eco:jungle:tropical', width: 1, connectivity: 1.5 }
+];
+
+// Ecosystem forced onto the easternmost column by default
+export const DEFAULT_EASTERN_EDGE_ECOSYSTEM: EcosystemURN = 'flux:eco:marsh:tropical';
+
 // Spatial metrics for world generation
 export interface SpatialMetrics {
   worldWidthMeters: number;
@@ -43,6 +62,9 @@ export interface EcosystemBand {
   transitionZoneEnd: number;
 }
 
+// Kinds of landmark a vertex can be tagged with
+export type PointOfInterestType = 'confluence' | 'band-crossing' | 'hollow' | 'summit';
+
 // Vertex in the river flow network
 export interface WorldVertex {
   id: string;
@@ -51,8 +73,12 @@ export interface WorldVertex {
   y: number;
   gridX: number;
   gridY: number;
+  elevation?: number; // Meters above sea level
   ecosystem: EcosystemURN;
   isOrigin: boolean;
+  spawnIndex?: number; // Additional spawn point number (1-based), if this vertex is one
+  poi?: PointOfInterestType; // Landmark tag, if this vertex was chosen as one
+  name?: string; // Hand-set place name, overriding the generated one
   connections: string[]; // IDs of connected vertices
   metadata?: {
     pathfindingOrigin?: WorldVertex;
@@ -78,18 +104,38 @@ export interface DitheringStats {
   ecosystemCounts: Record<EcosystemURN, number>;
 }
 
+// Baseline weather for a single place
+export interface PlaceWeather {
+  temperature: number; // °C
+  pressure: number; // hPa
+  humidity: number; // % relative humidity
+}
+
+// Harvestable resource node at a place
+export interface ResourceNode {
+  quantity: number; // Units available
+}
+
+// Resource nodes at a single place, keyed by resource name
+export type ResourceNodes = Record<string, ResourceNode>;
+
 // Connectivity statistics
 export interface ConnectivityStats {
   totalVertices: number;
   totalEdges: number;
   avgConnectionsPerVertex: number;
   connectedComponents: number;
+  largestComponentSize: number;
+  unreachableFromOrigin: string[]; // IDs of vertices with no path back to the origin
   ecosystemConnectivity: Record<EcosystemURN, {
     count: number;
     avgConnections: number;
   }>;
 }
 
+// Where the origin goes: the river source (west-centre), a seeded random spot, or explicit grid coords
+export type OriginPlacement = 'west-center' | 'random' | { gridX: number; gridY: number };
+
 // Configuration for world generation
 export interface WorldGenerationConfig {
   // World dimensions
@@ -103,6 +149,14 @@ export interface WorldGenerationConfig {
   // Dithering parameters
   ditheringStrength?: number;
 
+  // Biome palette (West to East) and the ecosystem painted on the eastern edge (null = none)
+  biomes?: BiomeDefinition[];
+  easternEdgeEcosystem?: EcosystemURN | null;
+
+  // Origin position and number of additional spawn points
+  originPlacement?: OriginPlacement;
+  spawnCount?: number;
+
   // Visualization options
   showZoneBoundaries?: boolean;
   showFlowDirection?: boolean;
@@ -132,8 +186,11 @@ export interface WorldGenerationResult {
     type: 'band' | 'pure' | 'transition';
   }>;
 
-  // Weather data (computed on-demand for export)
-  smoothedWeather?: Map<string, { temperature: number; pressure: number; humidity: number }>;
+  // Weather data, keyed by vertex ID (absent on worlds imported without weather)
+  smoothedWeather?: Map<string, PlaceWeather>;
+
+  // Resource nodes, keyed by vertex ID (absent on worlds imported without resources)
+  resourceNodes?: Map<string, ResourceNodes>;
 
   // Metadata
   config: WorldGenerationConfig;
@@ -141,6 +198,55 @@ export interface WorldGenerationResult {
   version: string;
 }
 
+// Problem found while importing a world file; errors block loading, warnings don't
+export interface ImportIssue {
+  severity: 'error' | 'warning';
+  message: string;
+  line?: number; // JSONL line the problem was found on (1-based)
+  placeId?: string; // URN of the place involved
+}
+
+// Every issue found while importing a world file
+export interface ImportValidationReport {
+  issues: ImportIssue[];
+  errorCount: number;
+  warningCount: number;
+}
+
+// Outcome of an import: the world is null when the report contains errors
+export interface WorldImportResult {
+  world: WorldGenerationResult | null;
+  report: ImportValidationReport;
+}
+
+// Place present in only one of two diffed worlds
+export interface PlaceDiffEntry {
+  placeId: PlaceURN;
+  coordinates: [number, number];
+}
+
+// Place whose ecosystem differs between two worlds; its URN is the one in the newer world
+export interface EcosystemChange extends PlaceDiffEntry {
+  from: EcosystemURN;
+  to: EcosystemURN;
+}
+
+// Exit present in only one of two worlds; URNs are from the world that has it
+export interface ExitDiffEntry extends PlaceDiffEntry {
+  direction: string;
+  to: PlaceURN;
+  toCoordinates: [number, number];
+}
+
+// Differences between two worlds, matching places by coordinates
+export interface WorldDiff {
+  addedPlaces: PlaceDiffEntry[];
+  removedPlaces: PlaceDiffEntry[];
+  changedEcosystems: EcosystemChange[];
+  addedExits: ExitDiffEntry[];
+  removedExits: ExitDiffEntry[];
+}
+
 // Zone type for dithering algorithm
 export type ZoneType = 'pure' | 'transition';
 
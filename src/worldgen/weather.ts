@@ -0,0 +1,112 @@
+/**
+ * Baseline Weather for World Generation
+ * Derives temperature, pressure and humidity per vertex from ecosystem, latitude
+ * and elevation, then smooths the values across graph neighbours
+ */
+
+import type { WorldVertex, PlaceWeather } from './types';
+
+// Sea-level temperature (°C) and relative humidity (%) per biome
+const BIOME_CLIMATE: Record<string, { temperature: number; humidity: number }> = {
+  steppe: { temperature: 22, humidity: 30 },
+  grassland: { temperature: 19, humidity: 55 },
+  forest: { temperature: 17, humidity: 70 },
+  mountain: { temperature: 18, humidity: 40 },
+  jungle: { temperature: 28, humidity: 90 },
+  marsh: { temperature: 24, humidity: 95 }
+};
+
+const DEFAULT_BIOME_CLIMATE = { temperature: 18, humidity: 50 };
+
+const LAPSE_RATE = 6.5 / 1000; // °C lost per meter of elevation
+const LATITUDE_SPREAD = 4; // °C between the southern and northern edges
+const SEA_LEVEL_PRESSURE = 1013.25; // hPa
+const SMOOTHING_ITERATIONS = 3;
+const SMOOTHING_STRENGTH = 0.5; // Share of each step taken from the neighbour average
+
+/**
+ * Barometric pressure at a given elevation (standard atmosphere)
+ */
+function pressureAtElevation(elevation: number): number {
+  return SEA_LEVEL_PRESSURE * Math.pow(1 - 2.25577e-5 * elevation, 5.25588);
+}
+
+/**
+ * Unsmoothed weather for a single vertex
+ */
+function computeBaselineWeather(vertex: WorldVertex, latitude: number): PlaceWeather {
+  const biome = vertex.ecosystem.split(':')[2];
+  const climate = BIOME_CLIMATE[biome] ?? DEFAULT_BIOME_CLIMATE;
+  const elevation = vertex.elevation ?? 0;
+
+  // latitude runs 0 (southern edge) to 1 (northern edge); the north is cooler
+  const temperature = climate.temperature - elevation * LAPSE_RATE + (0.5 - latitude) * LATITUDE_SPREAD;
+
+  return {
+    temperature,
+    pressure: pressureAtElevation(elevation),
+    humidity: climate.humidity
+  };
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Compute spatially smoothed baseline weather for every vertex, keyed by vertex ID.
+ * Deterministic: depends only on the vertices and their connections.
+ */
+export function computeSmoothedWeather(vertices: WorldVertex[]): Map<string, PlaceWeather> {
+  let minY = Infinity;
+  let maxY = -Infinity;
+  for (const vertex of vertices) {
+    minY = Math.min(minY, vertex.y);
+    maxY = Math.max(maxY, vertex.y);
+  }
+  const spanY = maxY - minY || 1;
+
+  let current = new Map<string, PlaceWeather>();
+  vertices.forEach(vertex => {
+    current.set(vertex.id, computeBaselineWeather(vertex, (vertex.y - minY) / spanY));
+  });
+
+  // Laplacian smoothing over the graph: each step pulls values toward the neighbour mean
+  for (let iteration = 0; iteration < SMOOTHING_ITERATIONS; iteration++) {
+    const next = new Map<string, PlaceWeather>();
+
+    vertices.forEach(vertex => {
+      const self = current.get(vertex.id)!;
+      const neighbours = vertex.connections
+        .map(id => current.get(id))
+        .filter((weather): weather is PlaceWeather => weather !== undefined);
+
+      if (neighbours.length === 0) {
+        next.set(vertex.id, self);
+        return;
+      }
+
+      const mean = (key: keyof PlaceWeather) =>
+        neighbours.reduce((sum, weather) => sum + weather[key], 0) / neighbours.length;
+      const blend = (key: keyof PlaceWeather) =>
+        self[key] * (1 - SMOOTHING_STRENGTH) + mean(key) * SMOOTHING_STRENGTH;
+
+      next.set(vertex.id, {
+        temperature: blend('temperature'),
+        pressure: blend('pressure'),
+        humidity: blend('humidity')
+      });
+    });
+
+    current = next;
+  }
+
+  const smoothed = new Map<string, PlaceWeather>();
+  current.forEach((weather, id) => {
+    smoothed.set(id, {
+      temperature: round1(weather.temperature),
+      pressure: round1(weather.pressure),
+      humidity: round1(Math.max(0, Math.min(100, weather.humidity)))
+    });
+  });
+
+  return smoothed;
+}